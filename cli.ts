@@ -58,15 +58,21 @@ function printHelp(): void {
   
   log('环境变量:', colors.bright);
   log('  MQTT_PORT          MQTT 服务端口 (默认: 1883)');
+  log('  MQTT_WS_PORT       MQTT WebSocket 端口，0 表示不启用 (默认: 0)');
+  log('  MQTTS_PORT         MQTTS 端口，配置 TLS_CERT/TLS_KEY 后启用 (默认: 8883)');
+  log('  HTTPS_ENABLED      HTTP 接口和 MQTT WebSocket 使用 HTTPS (默认: false)');
   log('  HTTP_PORT          HTTP API 端口 (默认: 3000)');
   log('  WEB_PORT           Web 面板端口 (默认: 3001)');
+  log('  CONTROL_PORT       Broker 控制通道端口，仅监听 127.0.0.1 (默认: 3002)');
   log('  LOG_LEVEL          日志级别 (none/error/warn/info/debug)\n');
   
   log('选项:', colors.bright);
-  log('  --verbose, -V      启用详细日志输出\n');
+  log('  --verbose, -V      启用详细日志输出');
+  log('  --single-process   all 命令下 Broker 和 Web 用户接口运行在同一进程中（节省内存）\n');
   
   log('示例:', colors.bright);
   log('  node dist/cli.js              # 启动所有服务');
+  log('  node dist/cli.js all --single-process  # 单进程启动所有服务');
   log('  node dist/cli.js broker       # 仅启动 MQTT Broker');
   log('  node dist/cli.js web          # 仅启动 Web 面板');
   log('  MQTT_PORT=1884 node dist/cli.js  # 使用自定义端口\n');
@@ -79,13 +85,13 @@ function printVersion(): void {
 /**
  * 启动子进程
  */
-function startProcess(name: string, scriptPath: string, color: string, verbose: boolean = false): ChildProcess {
+function startProcess(name: string, scriptPath: string, color: string, verbose: boolean = false, args: string[] = []): ChildProcess {
   const env = { ...process.env };
   if (verbose) {
     env.LOG_LEVEL = 'debug';
   }
   
-  const child = spawn(nodeRunner, [scriptPath], {
+  const child = spawn(nodeRunner, [scriptPath, ...args], {
     cwd: path.dirname(scriptPath),
     env: env,
     stdio: ['inherit', 'pipe', 'pipe'],
@@ -125,14 +131,15 @@ function startProcess(name: string, scriptPath: string, color: string, verbose:
 
 /**
  * 启动 MQTT Broker
+ * @param singleProcess 为 true 时在 Broker 进程中同时启动 Web 用户接口
  */
-function startBroker(verbose: boolean = false): ChildProcess {
-  log('🚀 正在启动 MQTT Broker...', colors.green);
+function startBroker(verbose: boolean = false, singleProcess: boolean = false): ChildProcess {
+  log(singleProcess ? '🚀 正在启动 MQTT Broker 和 Web 用户接口 (单进程)...' : '🚀 正在启动 MQTT Broker...', colors.green);
   if (verbose) {
     log('   详细日志已启用', colors.yellow);
   }
   const scriptPath = path.join(__dirname, 'src', `index${scriptExt}`);
-  return startProcess('Broker', scriptPath, colors.blue, verbose);
+  return startProcess('Broker', scriptPath, colors.blue, verbose, singleProcess ? ['--single-process'] : []);
 }
 
 /**
@@ -199,8 +206,9 @@ function startAngular(): ChildProcess {
 
 /**
  * 启动所有服务
+ * @param singleProcess 为 true 时 Broker 和 Web 用户接口运行在同一进程中
  */
-function startAll(verbose: boolean = false): ChildProcess[] {
+function startAll(verbose: boolean = false, singleProcess: boolean = false): ChildProcess[] {
   printBanner();
   const isDev = isDevEnvironment();
   
@@ -213,11 +221,13 @@ function startAll(verbose: boolean = false): ChildProcess[] {
   const processes: ChildProcess[] = [];
   
   // 启动 Broker
-  processes.push(startBroker(verbose));
+  processes.push(startBroker(verbose, singleProcess));
   
   // 稍微延迟启动 Web，确保数据库已初始化
   setTimeout(() => {
-    processes.push(startWeb(verbose));
+    if (!singleProcess) {
+      processes.push(startWeb(verbose));
+    }
     
     // 开发环境下启动 Angular 开发服务器
     if (isDev) {
@@ -295,30 +305,57 @@ function ensureBridgeConfig(): void {
   }
 }
 
+/**
+ * 确保控制通道密钥已生成
+ * 首次启动时自动生成 CONTROL_TOKEN 并写入 .env，通过环境变量传给 Broker 和 Web 子进程
+ */
+function ensureControlConfig(): void {
+  if (process.env.CONTROL_TOKEN) return;
+
+  const envPath = path.resolve(process.cwd(), '.env');
+  const envContent = fs.existsSync(envPath) ? fs.readFileSync(envPath, 'utf-8') : '';
+
+  let controlToken = dotenvParse(envContent).CONTROL_TOKEN;
+  if (!controlToken) {
+    controlToken = crypto.randomBytes(32).toString('hex');
+    const trimmed = envContent.trimEnd();
+    fs.writeFileSync(envPath, (trimmed ? trimmed + '\n' : '') + `CONTROL_TOKEN=${controlToken}\n`, 'utf-8');
+    log(`  🔑 已生成 CONTROL_TOKEN`, colors.green);
+  }
+
+  process.env.CONTROL_TOKEN = controlToken;
+}
+
 // 主入口
 function main(): void {
   const args = process.argv.slice(2);
   
   // 解析选项
   const verbose = args.includes('--verbose') || args.includes('-V');
-  const filteredArgs = args.filter(arg => arg !== '--verbose' && arg !== '-V');
+  const singleProcess = args.includes('--single-process');
+  const filteredArgs = args.filter(arg => arg !== '--verbose' && arg !== '-V' && arg !== '--single-process');
   const command = filteredArgs[0] || 'all';
 
   switch (command.toLowerCase()) {
     case 'all':
     case 'start':
       ensureBridgeConfig();
-      startAll(verbose);
+      if (!singleProcess) {
+        ensureControlConfig();
+      }
+      startAll(verbose, singleProcess);
       break;
       
     case 'broker':
       printBanner();
       ensureBridgeConfig();
+      ensureControlConfig();
       startBroker(verbose);
       break;
       
     case 'web':
       printBanner();
+      ensureControlConfig();
       startWeb(verbose);
       break;
       
@@ -0,0 +1,170 @@
+/**
+ * 定时任务调度器基准测试
+ *
+ * 用法: npm run bench:scheduler [-- 任务数]（默认 100000）
+ *
+ * 1. 到期队列：插入、修改到期时间、按序取出的耗时，以及每次唤醒检查与逐个扫描全部任务的开销对比
+ * 2. 调度器：在临时数据库中创建任务、修改 executeAt，统计实际触发时间相对 executeAt 的延迟
+ *
+ * 使用 data/ 下的临时数据库，结束后删除
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const TASK_COUNT = Number(process.argv[2]) || 100000;
+const DB_FILENAME = `bench-scheduler-${process.pid}.db`;
+
+// 需在加载配置前设置
+process.env.DB_FILENAME = DB_FILENAME;
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+process.env.SCHEDULE_CATCHUP_POLICY = 'skip';
+
+/**
+ * 执行并返回耗时（毫秒）
+ */
+function time(fn: () => void): number {
+  const start = process.hrtime.bigint();
+  fn();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(1)}ms`;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+}
+
+async function benchTimerQueue(): Promise<void> {
+  const { TimerQueue } = await import('../src/timerqueue');
+
+  console.log(`\n[到期队列] ${TASK_COUNT} 项`);
+  const now = Date.now();
+  const queue = new TimerQueue<string>();
+  const keys = Array.from({ length: TASK_COUNT }, (_, i) => `task-${i}`);
+
+  console.log(`  插入:            ${formatMs(time(() => {
+    for (const key of keys) queue.set(key, now + Math.floor(Math.random() * 86400000));
+  }))}`);
+
+  console.log(`  修改到期时间:    ${formatMs(time(() => {
+    for (const key of keys) queue.set(key, now + Math.floor(Math.random() * 86400000));
+  }))}`);
+
+  // 每次唤醒的检查开销：堆只看堆顶，逐个扫描需要遍历全部任务
+  const tasks = new Map(keys.map(key => [key, { executeAt: now + 86400000 }]));
+  // 累计到期数并输出，避免检查被优化掉；两种方式都应为 0
+  const ticks = 100;
+  let scanDue = 0;
+  let peekDue = 0;
+  const scanMs = time(() => {
+    for (let i = 0; i < ticks; i++) {
+      for (const task of tasks.values()) {
+        if (now >= task.executeAt) scanDue++;
+      }
+    }
+  }) / ticks;
+  const peekMs = time(() => {
+    for (let i = 0; i < ticks; i++) {
+      if (queue.popDue(now) !== undefined) peekDue++;
+    }
+  }) / ticks;
+  console.log(`  每次检查（无到期）: 堆 ${(peekMs * 1000).toFixed(2)}µs，逐个扫描 ${(scanMs * 1000).toFixed(0)}µs（到期 ${peekDue}/${scanDue}）`);
+
+  let last = -Infinity;
+  let ordered = true;
+  console.log(`  按序取出全部:    ${formatMs(time(() => {
+    let at: number | null;
+    while ((at = queue.peekTime()) !== null) {
+      if (at < last) ordered = false;
+      last = at;
+      queue.popDue(at);
+    }
+  }))}${ordered ? '' : '（顺序错误！）'}`);
+}
+
+async function benchScheduler(): Promise<void> {
+  const { default: Aedes } = await import('aedes');
+  const { initDatabase, getDb } = await import('../src/database');
+  const { deviceCache } = await import('../src/cache');
+  const { router } = await import('../src/router');
+  const { scheduler } = await import('../src/scheduler');
+
+  console.log(`\n[调度器] ${TASK_COUNT} 个任务`);
+  initDatabase();
+  const aedes = new Aedes();
+  router.init(aedes, deviceCache);
+  scheduler.init(aedes, deviceCache);
+
+  // 记录每次投递时间（目标设备不存在，只统计触发延迟）
+  const firedAt = new Map<string, number>();
+  const sendToDevice = router.sendToDevice.bind(router);
+  router.sendToDevice = (fromDevice, toDevice, data, options) => {
+    firedAt.set((data as { id: string }).id, Date.now());
+    return sendToDevice(fromDevice, toDevice, data, options);
+  };
+
+  const db = getDb();
+  const windowMs = 10000;
+  const startAt = Date.now() + 5000;
+  const planned = new Map<string, number>();
+  const taskIds: string[] = [];
+
+  console.log(`  创建任务:        ${formatMs(time(() => {
+    db.transaction(() => {
+      for (let i = 0; i < TASK_COUNT; i++) {
+        const task = scheduler.createTask(null, 'device', `bench-${i}`, { id: `${i}` }, 'scheduled', {
+          executeAt: Date.now() + 3600000
+        });
+        taskIds.push(task.id);
+      }
+    })();
+  }))}`);
+
+  // 把全部任务改到接下来的 windowMs 内均匀触发，验证修改 executeAt 后按新时间执行
+  console.log(`  修改 executeAt:  ${formatMs(time(() => {
+    db.transaction(() => {
+      taskIds.forEach((taskId, i) => {
+        const executeAt = startAt + Math.floor(i * windowMs / TASK_COUNT);
+        scheduler.updateTask(taskId, { executeAt });
+        planned.set(`${i}`, executeAt);
+      });
+    })();
+  }))}`);
+
+  scheduler.start();
+  const deadline = startAt + windowMs + 60000;
+  while (firedAt.size < TASK_COUNT && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  scheduler.stop();
+
+  const delays = Array.from(firedAt, ([id, at]) => at - planned.get(id)!).sort((a, b) => a - b);
+  const early = delays.filter(delay => delay < 0).length;
+  console.log(`  已触发:          ${firedAt.size}/${TASK_COUNT}（${windowMs / 1000}s 内均匀分布）${early > 0 ? `，提前触发 ${early} 个！` : ''}`);
+  console.log(`  触发延迟:        p50 ${delays.length ? percentile(delays, 0.5) : '-'}ms，p99 ${delays.length ? percentile(delays, 0.99) : '-'}ms，最大 ${delays.length ? delays[delays.length - 1] : '-'}ms`);
+  console.log('  （延迟包含投递和写入执行记录的耗时）');
+
+  aedes.close();
+  deviceCache.destroy();
+  db.close();
+}
+
+async function main(): Promise<void> {
+  try {
+    await benchTimerQueue();
+    await benchScheduler();
+  } finally {
+    const dbPath = path.join(__dirname, '..', 'data', DB_FILENAME);
+    for (const suffix of ['', '-wal', '-shm']) {
+      fs.rmSync(dbPath + suffix, { force: true });
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
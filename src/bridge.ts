@@ -18,12 +18,14 @@
  */
 
 import mqtt, { MqttClient } from 'mqtt';
+import { X509Certificate } from 'crypto';
 import Aedes, { PublishPacket } from 'aedes';
 import config from './config';
-import { BridgeRemoteConfig, BridgeMessage, BridgeGroupMessage, BridgeShareSyncMessage, BridgeShareDataMessage, ForwardMessage, IDeviceCache } from './types';
+import { BridgeRemoteConfig, BridgeMessage, BridgeGroupMessage, BridgeShareSyncMessage, BridgeShareDataMessage, DeliveryOptions, IDeviceCache, QoS } from './types';
 import { logger } from './logger';
-import { stringifyBridgeMessage, stringifyBridgeGroupMessage, stringifyForwardMessage, stringifyGroupForwardMessage, stringifyBridgeShareSyncMessage, stringifyBridgeShareDataMessage } from './serializer';
+import { stringifyBridgeMessage, stringifyBridgeGroupMessage, stringifyBridgeShareSyncMessage, stringifyBridgeShareDataMessage } from './serializer';
 import { getEnabledBridgeRemotes, getSharedDevicesForBroker, checkBridgeDeviceAccess, getSharedBrokerIdsForDevice, getDeviceByClientId as dbGetDeviceByClientId } from './database';
+import { router, normalizeQoS } from './router';
 
 /** Bridge 客户端 ID 前缀 */
 export const BRIDGE_CLIENT_PREFIX = '__bridge_';
@@ -34,6 +36,13 @@ export const BRIDGE_GROUP_TOPIC_REGEX = /^\/bridge\/group\/([^/]+)$/;
 const BRIDGE_SHARE_SYNC_REGEX = /^\/bridge\/share\/sync\/([^/]+)$/;
 const BRIDGE_SHARE_DATA_REGEX = /^\/bridge\/share\/data\/([^/]+)\/([^/]+)$/;
 
+/** 远程 Broker 支持的连接协议（tcp/ssl/tls 为 mqtt.js 的别名） */
+const BRIDGE_URL_PROTOCOLS: ReadonlySet<string> = new Set(['mqtt:', 'tcp:', 'ws:', 'mqtts:', 'ssl:', 'tls:', 'wss:']);
+const BRIDGE_TLS_PROTOCOLS: ReadonlySet<string> = new Set(['mqtts:', 'ssl:', 'tls:', 'wss:']);
+
+/** 等待远程回执的消息数上限，超出时丢弃最早的记录 */
+const MAX_AWAITING_RECEIPTS = 10000;
+
 /**
  * 解析远程设备地址
  * @returns { brokerId, clientId } 或 null（本地设备）
@@ -47,6 +56,33 @@ export function parseRemoteAddress(address: string): { brokerId: string; clientI
   return { brokerId, clientId };
 }
 
+/**
+ * 校验远程 Broker 地址和固定 CA 证书
+ * @returns 错误信息，合法时返回 null
+ */
+export function validateBridgeRemote(url: string, ca: string | null | undefined): string | null {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    return 'url 格式错误';
+  }
+  if (!BRIDGE_URL_PROTOCOLS.has(protocol)) {
+    return 'url 协议必须为 mqtt://、mqtts://、ws:// 或 wss://';
+  }
+
+  if (ca === undefined || ca === null) return null;
+  if (!BRIDGE_TLS_PROTOCOLS.has(protocol)) {
+    return 'ca 仅用于 mqtts:// 或 wss:// 连接';
+  }
+  try {
+    new X509Certificate(ca);
+  } catch {
+    return 'ca 必须为 PEM 格式的证书';
+  }
+  return null;
+}
+
 /**
  * 判断 clientId 是否为 bridge 客户端
  */
@@ -67,7 +103,7 @@ interface RemoteConnection {
 /**
  * 远程共享设备信息（从远程 Broker 同步过来的）
  */
-interface RemoteSharedDeviceEntry {
+export interface RemoteSharedDeviceEntry {
   uuid: string;
   clientId: string | null;
   permissions: string;
@@ -86,6 +122,10 @@ class BridgeManager {
   private remoteSharedDevices: Map<string, RemoteSharedDeviceEntry[]> = new Map();
   private started = false;
 
+  // 已发往远程设备、等待回执的消息 "brokerId|fromClientId|msgId" -> 过期时间
+  // 远程 Broker 只能向本地设备投递这些消息的回执，防止借 receipt 类型绕过共享权限
+  private awaitingReceipts: Map<string, number> = new Map();
+
   /**
    * 初始化 Bridge
    */
@@ -141,24 +181,32 @@ class BridgeManager {
   /**
    * 发送设备消息到远程 Broker
    */
-  sendToRemoteDevice(remoteBrokerId: string, fromClientId: string, targetClientId: string, data: unknown): boolean {
+  sendToRemoteDevice(remoteBrokerId: string, fromClientId: string, targetClientId: string, data: unknown, options: DeliveryOptions = {}): boolean {
     const conn = this.remotes.get(remoteBrokerId);
     if (!conn || !conn.connected || !conn.client) {
       logger.forward(`[BRIDGE] 远程 Broker ${remoteBrokerId} 未连接，无法转发`);
       return false;
     }
 
+    const qos = normalizeQoS(options.qos);
     const bridgeMsg: BridgeMessage = {
       fromBroker: config.bridge.brokerId,
       fromDevice: fromClientId,
       toDevice: targetClientId,
+      type: options.type,
+      msgId: options.msgId,
+      qos,
       data
     };
 
+    if (options.msgId && options.type !== 'receipt') {
+      this.trackReceipt(remoteBrokerId, fromClientId, options.msgId);
+    }
+
     const topic = `/bridge/device/${targetClientId}`;
     const payload = stringifyBridgeMessage(bridgeMsg);
 
-    conn.client.publish(topic, payload, { qos: 0 }, (error) => {
+    conn.client.publish(topic, payload, { qos }, (error) => {
       if (error) {
         logger.forward(`[BRIDGE] 发送设备消息到 ${remoteBrokerId} 失败: ${error.message}`);
       } else {
@@ -169,10 +217,40 @@ class BridgeManager {
     return true;
   }
 
+  /**
+   * 记录等待远程回执的消息，回执可能在远程设备离线补发后才到达，按离线队列 TTL 保留
+   */
+  private trackReceipt(remoteBrokerId: string, fromClientId: string, msgId: string): void {
+    const now = Date.now();
+    if (this.awaitingReceipts.size >= MAX_AWAITING_RECEIPTS) {
+      for (const [key, expiresAt] of this.awaitingReceipts) {
+        if (expiresAt <= now) this.awaitingReceipts.delete(key);
+      }
+      // 仍然超出时丢弃最早记录的（Map 按插入顺序迭代）
+      for (const key of this.awaitingReceipts.keys()) {
+        if (this.awaitingReceipts.size < MAX_AWAITING_RECEIPTS) break;
+        this.awaitingReceipts.delete(key);
+      }
+    }
+    this.awaitingReceipts.set(`${remoteBrokerId}|${fromClientId}|${msgId}`, now + config.offlineQueue.ttl);
+  }
+
+  /**
+   * 回执是否应答本地设备发往该远程 Broker 的消息，匹配后移除记录（每条消息只接受一次回执）
+   */
+  private consumeReceipt(remoteBrokerId: string, targetClientId: string, msgId: string | undefined): boolean {
+    if (!msgId) return false;
+    const key = `${remoteBrokerId}|${targetClientId}|${msgId}`;
+    const expiresAt = this.awaitingReceipts.get(key);
+    if (expiresAt === undefined) return false;
+    this.awaitingReceipts.delete(key);
+    return expiresAt > Date.now();
+  }
+
   /**
    * 发送组消息到远程 Broker
    */
-  sendToRemoteGroup(remoteBrokerId: string, fromClientId: string, targetGroup: string, data: unknown): boolean {
+  sendToRemoteGroup(remoteBrokerId: string, fromClientId: string, targetGroup: string, data: unknown, qos: QoS = 0): boolean {
     const conn = this.remotes.get(remoteBrokerId);
     if (!conn || !conn.connected || !conn.client) {
       logger.group(`[BRIDGE] 远程 Broker ${remoteBrokerId} 未连接，无法转发组消息`);
@@ -183,13 +261,14 @@ class BridgeManager {
       fromBroker: config.bridge.brokerId,
       fromDevice: fromClientId,
       toGroup: targetGroup,
+      qos,
       data
     };
 
     const topic = `/bridge/group/${targetGroup}`;
     const payload = stringifyBridgeGroupMessage(bridgeMsg);
 
-    conn.client.publish(topic, payload, { qos: 0 }, (error) => {
+    conn.client.publish(topic, payload, { qos }, (error) => {
       if (error) {
         logger.group(`[BRIDGE] 发送组消息到 ${remoteBrokerId} 失败: ${error.message}`);
       } else {
@@ -203,9 +282,9 @@ class BridgeManager {
   /**
    * 广播组消息到所有已连接的远程 Broker
    */
-  broadcastToRemoteGroup(fromClientId: string, targetGroup: string, data: unknown): void {
+  broadcastToRemoteGroup(fromClientId: string, targetGroup: string, data: unknown, qos: QoS = 0): void {
     for (const [brokerId] of this.remotes) {
-      this.sendToRemoteGroup(brokerId, fromClientId, targetGroup, data);
+      this.sendToRemoteGroup(brokerId, fromClientId, targetGroup, data, qos);
     }
   }
 
@@ -387,7 +466,8 @@ class BridgeManager {
         this.connectRemote({
           id: remote.broker_id,
           url: remote.url,
-          token: remote.token
+          token: remote.token,
+          ca: remote.ca_cert ?? undefined
         });
       }
     } catch (error) {
@@ -431,7 +511,9 @@ class BridgeManager {
       clean: true,
       keepalive: 60,
       reconnectPeriod: 0, // 我们自己管理重连
-      connectTimeout: 10000
+      connectTimeout: 10000,
+      // 固定 CA：mqtts:// 和 wss:// 连接只信任该 CA 签发的远程证书
+      ...(remote.ca ? { ca: remote.ca, rejectUnauthorized: true } : {})
     });
 
     conn.client = client;
@@ -441,12 +523,13 @@ class BridgeManager {
       console.log(`[BRIDGE] 已连接远程 Broker: ${remote.id}`);
 
       // 订阅 bridge topic（接收远程 broker 转发给我们的消息）
+      // 以 QoS 2 订阅，使远程消息按发送方的原始 QoS 投递
       client.subscribe([
         '/bridge/device/+',
         '/bridge/group/+',
         `/bridge/share/sync/${config.bridge.brokerId}`,
         `/bridge/share/data/${config.bridge.brokerId}/+`
-      ], { qos: 0 }, (error) => {
+      ], { qos: 2 }, (error) => {
         if (error) {
           console.error(`[BRIDGE] 订阅 ${remote.id} bridge topic 失败:`, error.message);
         } else {
@@ -515,7 +598,7 @@ class BridgeManager {
       if (deviceMatch) {
         const targetClientId = deviceMatch[1]!;
         const msg = JSON.parse(payloadStr) as BridgeMessage;
-        this.deliverToLocalDevice(msg.fromBroker, msg.fromDevice, targetClientId, msg.data);
+        this.deliverToLocalDevice(targetClientId, msg);
         return;
       }
 
@@ -524,7 +607,7 @@ class BridgeManager {
       if (groupMatch) {
         const targetGroup = groupMatch[1]!;
         const msg = JSON.parse(payloadStr) as BridgeGroupMessage;
-        this.deliverToLocalGroup(msg.fromBroker, msg.fromDevice, targetGroup, msg.data);
+        this.deliverToLocalGroup(targetGroup, msg);
         return;
       }
 
@@ -556,7 +639,7 @@ class BridgeManager {
   handleIncomingBridgeDeviceMessage(targetClientId: string, payload: string): void {
     try {
       const msg = JSON.parse(payload) as BridgeMessage;
-      this.deliverToLocalDevice(msg.fromBroker, msg.fromDevice, targetClientId, msg.data);
+      this.deliverToLocalDevice(targetClientId, msg);
     } catch (error) {
       logger.error(`[BRIDGE] 解析入站设备消息失败: ${(error as Error).message}`);
     }
@@ -565,7 +648,7 @@ class BridgeManager {
   handleIncomingBridgeGroupMessage(targetGroup: string, payload: string): void {
     try {
       const msg = JSON.parse(payload) as BridgeGroupMessage;
-      this.deliverToLocalGroup(msg.fromBroker, msg.fromDevice, targetGroup, msg.data);
+      this.deliverToLocalGroup(targetGroup, msg);
     } catch (error) {
       logger.error(`[BRIDGE] 解析入站组消息失败: ${(error as Error).message}`);
     }
@@ -602,91 +685,53 @@ class BridgeManager {
   /**
    * 投递消息到本地设备
    */
-  private deliverToLocalDevice(fromBroker: string, fromDevice: string, targetClientId: string, data: unknown): void {
+  private deliverToLocalDevice(targetClientId: string, msg: BridgeMessage): void {
     if (!this.aedes || !this.deviceCache) return;
 
-    // ACL 检查：如果该远程 Broker 配置了共享设备白名单，验证目标设备是否在授权列表中
-    const access = checkBridgeDeviceAccess(targetClientId, fromBroker);
-    if (access === 'none') {
-      logger.forward(`[BRIDGE] 设备 ${targetClientId} 未授权给 ${fromBroker}，拒绝投递`);
-      return;
-    }
-    if (access === 'read') {
-      logger.forward(`[BRIDGE] 设备 ${targetClientId} 对 ${fromBroker} 仅有只读权限，拒绝投递指令`);
-      return;
+    const { fromBroker, fromDevice, type, msgId } = msg;
+    let data = msg.data;
+
+    // 送达回执是对本地设备所发消息的应答，不受共享权限限制，但必须对应本地设备发往该 Broker 的消息，
+    // 且回执内容在本地重建，不转发远程提供的数据
+    if (type === 'receipt') {
+      if (!this.consumeReceipt(fromBroker, targetClientId, msgId)) {
+        logger.forward(`[BRIDGE] 来自 ${fromBroker} 的回执 ${msgId} 没有对应的已发消息，拒绝投递`);
+        return;
+      }
+      const ts = (msg.data as { ts?: unknown } | null)?.ts;
+      data = { status: 'delivered', ts: typeof ts === 'number' ? ts : Date.now() };
+    } else {
+      // ACL 检查：如果该远程 Broker 配置了共享设备白名单，验证目标设备是否在授权列表中
+      const access = checkBridgeDeviceAccess(targetClientId, fromBroker);
+      if (access === 'none') {
+        logger.forward(`[BRIDGE] 设备 ${targetClientId} 未授权给 ${fromBroker}，拒绝投递`);
+        return;
+      }
+      if (access === 'read') {
+        logger.forward(`[BRIDGE] 设备 ${targetClientId} 对 ${fromBroker} 仅有只读权限，拒绝投递指令`);
+        return;
+      }
     }
 
-    const forwardMessage: ForwardMessage = {
+    router.deliverToLocalDevice({
       fromDevice: `${fromBroker}:${fromDevice}`,
+      type,
+      msgId,
       data
-    };
-
-    // 如果目标设备是 HTTP 模式，暂存消息
-    if (this.deviceCache.isHttpMode(targetClientId)) {
-      this.deviceCache.addPendingMessage(targetClientId, forwardMessage);
-      logger.forward(`[BRIDGE] 远程消息已暂存给HTTP设备: ${targetClientId}`);
-      return;
-    }
-
-    // MQTT 模式：发送到目标设备的接收 topic
-    const targetTopic = `/device/${targetClientId}/r`;
-    const payload = stringifyForwardMessage(forwardMessage);
-
-    this.aedes.publish({
-      topic: targetTopic,
-      payload: Buffer.from(payload),
-      qos: 0,
-      retain: false,
-      cmd: 'publish',
-      dup: false
-    } as PublishPacket, (error: Error | undefined) => {
-      if (error) {
-        logger.forward(`[BRIDGE] 投递远程消息到本地设备失败: ${error.message}`);
-      } else {
-        logger.forward(`[BRIDGE] 远程消息已投递到本地设备: ${targetClientId}`);
-      }
-    });
+    }, targetClientId, normalizeQoS(msg.qos));
   }
 
   /**
    * 投递组消息到本地组成员
    */
-  private deliverToLocalGroup(fromBroker: string, fromDevice: string, targetGroup: string, data: unknown): void {
+  private deliverToLocalGroup(targetGroup: string, msg: BridgeGroupMessage): void {
     if (!this.aedes || !this.deviceCache) return;
 
-    const forwardMessage: ForwardMessage = {
-      fromDevice: `${fromBroker}:${fromDevice}`,
+    router.deliverToLocalGroup({
+      fromDevice: `${msg.fromBroker}:${msg.fromDevice}`,
       fromGroup: targetGroup,
-      data
-    };
-
-    // 为组内 HTTP 模式设备暂存消息
-    const groupMembers = this.deviceCache.getGroupMembers(targetGroup);
-    for (const memberClientId of groupMembers) {
-      if (this.deviceCache.isHttpMode(memberClientId)) {
-        this.deviceCache.addPendingMessage(memberClientId, forwardMessage);
-        logger.group(`[BRIDGE] 远程组消息已暂存给HTTP设备: ${memberClientId}`);
-      }
-    }
-
-    // 发送到组的接收 topic（MQTT 设备会通过订阅收到）
-    const targetTopic = `/group/${targetGroup}/r`;
-    const payload = stringifyGroupForwardMessage(forwardMessage);
-
-    this.aedes.publish({
-      topic: targetTopic,
-      payload: Buffer.from(payload),
-      qos: 0,
-      retain: false,
-      cmd: 'publish',
-      dup: false
-    } as PublishPacket, (error: Error | undefined) => {
-      if (error) {
-        logger.group(`[BRIDGE] 远程组消息投递失败: ${error.message}`);
-      } else {
-        logger.group(`[BRIDGE] 远程组消息已投递到本地组: ${targetGroup}`);
-      }
-    });
+      data: msg.data
+    }, targetGroup, normalizeQoS(msg.qos));
   }
 }
 
@@ -1,20 +1,29 @@
 import Aedes, { Client as AedesClient, AuthenticateError, PublishPacket, Subscription } from 'aedes';
 import { getDeviceByClientId, getDeviceGroups, isDeviceInGroup, updateDeviceOnlineStatus, markDeviceOffline, insertTimeseriesData, batchInsertTimeseriesData } from './database';
 import config from './config';
-import { Device, ForwardMessage, IDeviceCache } from './types';
+import { Device, IDeviceCache, QoS } from './types';
 import { logger } from './logger';
-import { stringifyForwardMessage, stringifyGroupForwardMessage } from './serializer';
 import { bridge, isBridgeClient, parseRemoteAddress, BRIDGE_CLIENT_PREFIX, BRIDGE_DEVICE_TOPIC_REGEX, BRIDGE_GROUP_TOPIC_REGEX } from './bridge';
+import { router, normalizeQoS } from './router';
+import { receiptTracker } from './receipts';
+import { shadow } from './shadow';
+import { limiter } from './limits';
+import { getClientCertificate } from './tls';
 
 // 预编译的正则表达式（避免每次调用时重新创建）
 const DEVICE_TOPIC_REGEX = /^\/device\/([^/]+)\/(s|r)$/;
 const GROUP_TOPIC_REGEX = /^\/group\/([^/]+)\/(s|r)$/;
+const SHADOW_TOPIC_REGEX = /^\/device\/([^/]+)\/shadow\/(.+)$/;
+// 设备影子：设备可发布的请求 topic 和可订阅的响应 topic
+const SHADOW_REQUEST_CHANNELS = new Set(['get', 'update']);
+const SHADOW_RESPONSE_CHANNELS = new Set(['get/accepted', 'get/rejected', 'update/accepted', 'update/rejected', 'update/delta', '+/+']);
 // BRIDGE_DEVICE_TOPIC_REGEX, BRIDGE_GROUP_TOPIC_REGEX 从 bridge.ts 导入
 
 interface DeviceMessage {
   toDevice?: string;
   toGroup?: string;
   ts?: boolean;
+  msgId?: string;    // 可选，目标设备确认收到后向发送方回执（需 QoS 1/2）
   data: unknown;
 }
 
@@ -23,6 +32,34 @@ interface GroupMessage {
   data: unknown;
 }
 
+/**
+ * Aedes 未在类型中声明遗嘱报文：
+ * _will 在认证前由 CONNECT 报文写入，will 在连接建立后生效，断开时作为发布报文交给 authorizePublish
+ */
+interface WillClient extends AedesClient {
+  _will?: { topic: string; payload: Buffer } | null;
+  will?: PublishPacket | null;
+}
+
+/**
+ * Aedes 未在类型中声明实例的持久化层，这里只用到清除待确认报文的方法
+ */
+interface AckPersistenceAedes extends Aedes {
+  persistence: {
+    outgoingClearMessageId(
+      client: AedesClient,
+      packet: { cmd: string; messageId?: number },
+      cb: (error: Error | null | undefined, packet?: PublishPacket) => void
+    ): void;
+  };
+}
+
+/**
+ * 超出发布限制但按 drop / reject 处理的报文，按 payload 记录
+ * Aedes 分发前会复制报文对象，但 payload 仍是同一个 Buffer，据此在转发和路由时识别
+ */
+const droppedPayloads: WeakSet<Buffer> = new WeakSet();
+
 /**
  * 设置MQTT Broker逻辑
  */
@@ -70,14 +107,31 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
       return callback(error, false);
     }
 
-    // 验证用户名和密码
-    if (device.username !== username || device.password !== passwordStr) {
+    // MQTTS 连接出示了客户端证书：证书需由 TLS_CA 签发且 CN 为设备 uuid，通过后不再校验密码
+    const certificate = getClientCertificate(client);
+    if (certificate) {
+      if (!certificate.authorized || certificate.commonName !== device.uuid) {
+        logger.auth(`认证失败: 客户端证书无效 ${clientId}, CN: ${certificate.commonName}`);
+        const error = new Error('客户端证书无效') as AuthenticateError;
+        error.returnCode = 4;
+        return callback(error, false);
+      }
+      logger.auth(`客户端证书验证通过: ${clientId}`);
+    } else if (device.username !== username || device.password !== passwordStr) {
+      // 验证用户名和密码
       logger.auth(`认证失败: 凭证错误 ${clientId}`);
       const error = new Error('用户名或密码错误') as AuthenticateError;
       error.returnCode = 4;
       return callback(error, false);
     }
 
+    if (device.disabled) {
+      logger.auth(`认证失败: 设备已停用 ${clientId}`);
+      const error = new Error('设备已停用') as AuthenticateError;
+      error.returnCode = 5; // Not authorized
+      return callback(error, false);
+    }
+
     logger.auth(`认证成功: ${clientId}`);
     
     // 缓存设备信息
@@ -88,6 +142,15 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
     const groupNames = groups.map(g => g.name);
     deviceCache.setDeviceGroups(clientId, groupNames);
 
+    // 遗嘱消息只能发布到设备自己的 topic
+    const will = (client as WillClient)._will;
+    if (will && !checkTopicPermission(clientId, will.topic, 'publish', device, deviceCache)) {
+      logger.auth(`认证失败: 遗嘱消息无权发布到 ${will.topic} ${clientId}`);
+      const error = new Error('遗嘱消息只能发布到设备自己的topic') as AuthenticateError;
+      error.returnCode = 5; // Not authorized
+      return callback(error, false);
+    }
+
     callback(null, true);
   };
 
@@ -118,18 +181,9 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
       return callback(new Error('Bridge 客户端只能发布 /bridge/ topic'));
     }
 
-    // 检查消息长度限制（限制机制4）
-    if (payload.length > config.message.maxLength) {
-      logger.publish(`消息过长，断开连接: ${clientId}`);
-      client.close();
-      return callback(new Error(`消息长度超过${config.message.maxLength}`));
-    }
-
-    // 检查发布频率限制（限制机制3）
-    if (!deviceCache.checkPublishRate(clientId)) {
-      logger.publish(`发布频率过高，断开连接: ${clientId}`);
-      client.close();
-      return callback(new Error('发布频率过高'));
+    // 遗嘱消息：客户端已断开，只校验长度和 topic 权限，不计入发布频率
+    if (packet === (client as WillClient).will) {
+      return callback(authorizeWill(client, packet, deviceCache));
     }
 
     // 获取设备信息
@@ -148,6 +202,26 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
       return callback(new Error('无权发布到此topic'));
     }
 
+    // 检查消息长度和发布频率限制（限制机制3、4），按设备或组的限制配置处理
+    const limit = limiter.check(clientId, device.id, payload.length);
+    if (!limit.allowed) {
+      if (limit.action === 'disconnect') {
+        logger.publish(`${limit.detail}，断开连接: ${clientId}`);
+        client.close();
+        return callback(new Error(limit.detail));
+      }
+
+      // drop / reject：授权通过（Aedes 在授权失败时总会断开连接），
+      // 由 authorizeForward 拒绝转发给订阅者，'publish' 事件中跳过路由，且不保存为保留消息
+      logger.publish(`${limit.detail}，丢弃消息: ${clientId} -> ${topic}`);
+      droppedPayloads.add(packet.payload as Buffer);
+      packet.retain = false;
+      if (limit.action === 'reject') {
+        limiter.notifyRejected(client, topic, payload, limit);
+      }
+      return callback(null);
+    }
+
     logger.publish(`发布授权成功: ${clientId} -> ${topic}`);
     callback(null);
   };
@@ -198,6 +272,30 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
     callback(null, sub);
   };
 
+  /**
+   * 转发前拒绝超出发布限制被丢弃的报文，并记录待确认的 QoS 报文，用于送达回执
+   */
+  aedes.authorizeForward = (client, packet) => {
+    if (droppedPayloads.has(packet.payload as Buffer)) return null;
+    return receiptTracker.trackForward(client, packet);
+  };
+
+  /**
+   * 客户端确认收到 QoS 1/2 报文（PUBACK / PUBCOMP）
+   * 'ack' 事件对 clean 会话不带原报文和 messageId，因此在 Aedes 清除待确认报文时按确认报文的 messageId 处理
+   */
+  const persistence = (aedes as AckPersistenceAedes).persistence;
+  const clearMessageId = persistence.outgoingClearMessageId.bind(persistence);
+  persistence.outgoingClearMessageId = (client, packet, cb) => {
+    clearMessageId(client, packet, (error, origPacket) => {
+      // 转发被拒绝时 Aedes 也会清除持久会话的待确认报文，只处理客户端发来的确认
+      if (packet.cmd === 'puback' || packet.cmd === 'pubcomp') {
+        receiptTracker.handleAck(client, packet.messageId, origPacket);
+      }
+      cb(error, origPacket);
+    });
+  };
+
   /**
    * 客户端连接事件
    */
@@ -215,6 +313,11 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
     const device = deviceCache.getDeviceByClientId(client.id);
     if (device) {
       updateDeviceOnlineStatus(device.id, true, 'mqtt');
+      router.publishPresence(client.id, device, true, 'mqtt');
+
+      // 补发离线期间的消息和未同步的影子差异
+      router.flushOfflineMessages(client, device);
+      shadow.syncOnConnect(client, device);
     }
   });
 
@@ -230,11 +333,14 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
 
     logger.disconnect(`客户端已断开: ${client.id}`);
     deviceCache.setClientOffline(client.id);
+    receiptTracker.clear(client.id);
+    limiter.clear(client.id);
     
     // 更新数据库中的设备离线状态
     const device = deviceCache.getDeviceByClientId(client.id);
     if (device) {
       markDeviceOffline(device.id);
+      router.publishPresence(client.id, device, false, 'mqtt');
     }
   });
 
@@ -251,6 +357,9 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
   aedes.on('publish', (packet: PublishPacket, client: AedesClient | null) => {
     if (!client) return; // 系统消息忽略
 
+    // 超出发布限制被丢弃的消息
+    if (droppedPayloads.has(packet.payload as Buffer)) return;
+
     const topic = packet.topic;
     const payload = packet.payload.toString();
 
@@ -271,6 +380,17 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
       return;
     }
 
+    // 处理设备影子请求
+    const shadowMatch = topic.match(SHADOW_TOPIC_REGEX);
+    if (shadowMatch) {
+      const device = deviceCache.getDeviceByClientId(client.id);
+      const channel = shadowMatch[2]!;
+      if (device && SHADOW_REQUEST_CHANNELS.has(channel)) {
+        shadow.handleDeviceRequest(client.id, device, channel as 'get' | 'update', payload);
+      }
+      return;
+    }
+
     try {
       const message = JSON.parse(payload) as DeviceMessage;
 
@@ -280,12 +400,12 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
         if (message.ts && message.data) {
           handleTimeseriesData(client.id, message.data, deviceCache);
         }
-        handleDeviceMessage(aedes, client, message, deviceCache);
+        handleDeviceMessage(client, message, normalizeQoS(packet.qos));
       }
       
       // 处理组消息转发
       if (topic.startsWith('/group/') && topic.endsWith('/s')) {
-        handleGroupMessage(aedes, client, topic, message as GroupMessage, deviceCache);
+        handleGroupMessage(client, message as GroupMessage, normalizeQoS(packet.qos), deviceCache);
       }
     } catch (error) {
       logger.message(`消息解析失败: ${(error as Error).message}`);
@@ -297,6 +417,7 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
    */
   aedes.on('subscribe', (subscriptions: Subscription[], client: AedesClient) => {
     logger.subscribe(`${client.id} 订阅了: ${subscriptions.map(s => s.topic).join(', ')}`);
+    receiptTracker.trackSubscriptions(client.id, subscriptions);
 
     // Bridge 客户端订阅 share topic 后，同步共享设备列表
     if (isBridgeClient(client.id)) {
@@ -315,9 +436,34 @@ export function setupBroker(aedes: Aedes, deviceCache: IDeviceCache): void {
    */
   aedes.on('unsubscribe', (subscriptions: string[], client: AedesClient) => {
     logger.subscribe(`${client.id} 取消订阅: ${subscriptions.join(', ')}`);
+    receiptTracker.untrackSubscriptions(client.id, subscriptions);
   });
 }
 
+/**
+ * 校验遗嘱消息，返回 null 表示允许发布
+ */
+function authorizeWill(client: AedesClient, packet: PublishPacket, deviceCache: IDeviceCache): Error | null {
+  const device = deviceCache.getDeviceByClientId(client.id);
+  if (!device) {
+    return new Error('设备未认证');
+  }
+
+  if (packet.payload.length > config.message.maxLength) {
+    logger.publish(`遗嘱消息过长，丢弃: ${client.id}`);
+    return new Error(`消息长度超过${config.message.maxLength}`);
+  }
+
+  // 断开前设备可能已被移出组，发布时再次校验
+  if (!checkTopicPermission(client.id, packet.topic, 'publish', device, deviceCache)) {
+    logger.publish(`遗嘱消息无权发布到topic，丢弃: ${client.id} -> ${packet.topic}`);
+    return new Error('无权发布到此topic');
+  }
+
+  logger.publish(`遗嘱消息发布授权成功: ${client.id} -> ${packet.topic}`);
+  return null;
+}
+
 /**
  * 检查topic权限
  */
@@ -358,7 +504,7 @@ function checkTopicPermission(
     const isInGroup = deviceCache.isDeviceInGroup(clientId, groupName);
     
     if (!isInGroup) {
-      // 从数据库二次检查
+      // 从数据库二次检查，只认正式成员：等待审批的加入申请不能收发组消息
       const dbCheck = isDeviceInGroup(device.id, groupName);
       if (!dbCheck) {
         return false;
@@ -368,6 +514,20 @@ function checkTopicPermission(
     return true;
   }
 
+  // 设备影子topic格式: /device/{clientId}/shadow/{channel}
+  const shadowMatch = topic.match(SHADOW_TOPIC_REGEX);
+
+  if (shadowMatch) {
+    // 设备只能访问自己的影子
+    if (shadowMatch[1] !== clientId) {
+      return false;
+    }
+    const channel = shadowMatch[2]!;
+    return action === 'publish'
+      ? SHADOW_REQUEST_CHANNELS.has(channel)
+      : SHADOW_RESPONSE_CHANNELS.has(channel);
+  }
+
   // 其他topic不允许
   return false;
 }
@@ -430,64 +590,20 @@ function handleTimeseriesData(
  * 处理设备间消息转发
  */
 function handleDeviceMessage(
-  aedes: Aedes,
   client: AedesClient,
   message: DeviceMessage,
-  deviceCache: IDeviceCache
+  qos: QoS
 ): void {
-  const { toDevice, data } = message;
+  const { toDevice, msgId, data } = message;
   
   if (!toDevice || !data) {
     logger.forward('消息格式错误，缺少toDevice或data');
     return;
   }
 
-  // 共享设备数据推送：如果发送方设备被共享，推送数据到相关 Broker
-  if (config.bridge.enabled) {
-    bridge.pushShareDataIfNeeded(client.id, data);
-  }
-
-  // 检查是否是跨 Broker 消息（格式: brokerId:clientId）
-  const remoteAddr = parseRemoteAddress(toDevice);
-  if (remoteAddr) {
-    // 转发到远程 Broker
-    const sent = bridge.sendToRemoteDevice(remoteAddr.brokerId, client.id, remoteAddr.clientId, data);
-    if (!sent) {
-      logger.forward(`远程 Broker ${remoteAddr.brokerId} 不可用，消息丢弃`);
-    }
-    return;
-  }
-
-  // 本地设备消息转发（原有逻辑不变）
-  const forwardMessage: ForwardMessage = {
-    fromDevice: client.id,
-    data: data
-  };
-
-  // 检查目标设备是否为HTTP模式
-  if (deviceCache.isHttpMode(toDevice)) {
-    deviceCache.addPendingMessage(toDevice, forwardMessage);
-    logger.forward(`消息已暂存给HTTP设备: ${toDevice}`);
-    return;
-  }
-
-  // MQTT模式：发送到目标设备的接收topic
-  const targetTopic = `/device/${toDevice}/r`;
-  const payload = stringifyForwardMessage(forwardMessage);
-  
-  aedes.publish({
-    topic: targetTopic,
-    payload: Buffer.from(payload),
-    qos: 0,
-    retain: false,
-    cmd: 'publish',
-    dup: false
-  }, (error: Error | undefined) => {
-    if (error) {
-      logger.forward(`转发消息失败: ${error.message}`);
-    } else {
-      logger.forward(`消息已转发到 ${targetTopic}`);
-    }
+  router.routeDeviceMessage(client.id, toDevice, data, {
+    qos,
+    msgId: typeof msgId === 'string' && msgId ? msgId : undefined
   });
 }
 
@@ -495,10 +611,9 @@ function handleDeviceMessage(
  * 处理组消息转发
  */
 function handleGroupMessage(
-  aedes: Aedes,
   client: AedesClient,
-  topic: string,
   message: GroupMessage,
+  qos: QoS,
   deviceCache: IDeviceCache
 ): void {
   const { toGroup, data } = message;
@@ -508,59 +623,11 @@ function handleGroupMessage(
     return;
   }
 
-  // 检查是否是跨 Broker 组消息（格式: brokerId:groupName）
-  const remoteAddr = parseRemoteAddress(toGroup);
-  if (remoteAddr) {
-    // 转发到远程 Broker 的指定组
-    const sent = bridge.sendToRemoteGroup(remoteAddr.brokerId, client.id, remoteAddr.clientId, data);
-    if (!sent) {
-      logger.group(`远程 Broker ${remoteAddr.brokerId} 不可用，组消息丢弃`);
-    }
-    return;
-  }
-
-  // 本地组消息处理（原有逻辑不变）
-  if (!deviceCache.isDeviceInGroup(client.id, toGroup)) {
+  // 本地组消息需要发送方在组中（跨 Broker 组消息由远程 Broker 处理）
+  if (!parseRemoteAddress(toGroup) && !deviceCache.isDeviceInGroup(client.id, toGroup)) {
     logger.group(`设备 ${client.id} 不在组 ${toGroup} 中，拒绝转发`);
     return;
   }
 
-  const forwardMessage: ForwardMessage = {
-    fromGroup: toGroup,
-    fromDevice: client.id,
-    data: data
-  };
-
-  // 为组内 HTTP 模式设备暂存消息
-  const groupMembers = deviceCache.getGroupMembers(toGroup);
-  for (const clientIdEntry of groupMembers) {
-    if (clientIdEntry !== client.id && deviceCache.isHttpMode(clientIdEntry)) {
-      deviceCache.addPendingMessage(clientIdEntry, forwardMessage);
-      logger.group(`组消息已暂存给HTTP设备: ${clientIdEntry}`);
-    }
-  }
-
-  // 发送到组的接收 topic
-  const targetTopic = `/group/${toGroup}/r`;
-  const payload = stringifyGroupForwardMessage(forwardMessage);
-  
-  aedes.publish({
-    topic: targetTopic,
-    payload: Buffer.from(payload),
-    qos: 0,
-    retain: false,
-    cmd: 'publish',
-    dup: false
-  }, (error: Error | undefined) => {
-    if (error) {
-      logger.group(`组消息转发失败: ${error.message}`);
-    } else {
-      logger.group(`消息已转发到组 ${toGroup}`);
-    }
-  });
-
-  // 如果启用了 Bridge，同时广播组消息到所有远程 Broker
-  if (config.bridge.enabled) {
-    bridge.broadcastToRemoteGroup(client.id, toGroup, data);
-  }
+  router.routeGroupMessage(client.id, toGroup, data, qos);
 }
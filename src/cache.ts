@@ -7,8 +7,9 @@ import config from './config';
 import {
   Device,
   DeviceMode,
-  ForwardMessage,
+  InboxMessage,
   PendingMessage,
+  SequencedInboxMessage,
   CacheStats,
   IDeviceCache
 } from './types';
@@ -20,9 +21,6 @@ export class DeviceCache implements IDeviceCache {
   // 设备信息缓存 authKey -> deviceInfo
   private deviceByAuthKey: Map<string, Device>;
   
-  // 设备最后发布时间 clientId -> timestamp
-  private lastPublishTime: Map<string, number>;
-  
   // 在线设备 clientId -> client
   private onlineClients: Map<string, AedesClient>;
   
@@ -41,6 +39,13 @@ export class DeviceCache implements IDeviceCache {
   // HTTP设备最后活动时间 clientId -> timestamp
   private httpDeviceLastActive: Map<string, number>;
 
+  // 等待暂存消息的长轮询和 SSE 连接 clientId -> Set<listener>
+  private pendingListeners: Map<string, Set<() => void>>;
+
+  // 暂存消息的最后序号 clientId -> seq（队列清空后保留，保证序号递增）
+  // 序号不小于分配时的毫秒时间戳，Broker 重启或设备缓存被删除后仍大于设备持有的旧 cursor
+  private pendingSeq: Map<string, number>;
+
   // 清理定时器
   private cleanupTimer: NodeJS.Timeout;
 
@@ -51,9 +56,6 @@ export class DeviceCache implements IDeviceCache {
     // 设备信息缓存 authKey -> deviceInfo
     this.deviceByAuthKey = new Map();
     
-    // 设备最后发布时间 clientId -> timestamp
-    this.lastPublishTime = new Map();
-    
     // 在线设备 clientId -> client
     this.onlineClients = new Map();
     
@@ -72,6 +74,12 @@ export class DeviceCache implements IDeviceCache {
     // HTTP设备最后活动时间 clientId -> timestamp
     this.httpDeviceLastActive = new Map();
 
+    // 等待暂存消息的长轮询和 SSE 连接 clientId -> Set<listener>
+    this.pendingListeners = new Map();
+
+    // 暂存消息的最后序号 clientId -> seq
+    this.pendingSeq = new Map();
+
     // 定时清理过期消息
     this.cleanupTimer = setInterval(() => this.cleanExpiredMessages(), config.cache.cleanupInterval);
   }
@@ -105,7 +113,7 @@ export class DeviceCache implements IDeviceCache {
   }
 
   /**
-   * 删除设备缓存
+   * 删除设备缓存（包括连接模式、暂存消息和组索引）
    */
   removeDevice(clientId: string, authKey: string): void {
     // 从组反向索引中移除
@@ -122,38 +130,14 @@ export class DeviceCache implements IDeviceCache {
 
     this.deviceByClientId.delete(clientId);
     this.deviceByAuthKey.delete(authKey);
-    this.lastPublishTime.delete(clientId);
     this.deviceGroupsMap.delete(clientId);
-  }
-
-  /**
-   * 记录设备最后发布时间
-   */
-  setLastPublishTime(clientId: string, timestamp: number): void {
-    this.lastPublishTime.set(clientId, timestamp);
-  }
-
-  /**
-   * 获取设备最后发布时间
-   */
-  getLastPublishTime(clientId: string): number {
-    return this.lastPublishTime.get(clientId) || 0;
-  }
+    this.deviceModeMap.delete(clientId);
+    this.pendingMessages.delete(clientId);
+    this.pendingSeq.delete(clientId);
+    this.httpDeviceLastActive.delete(clientId);
 
-  /**
-   * 检查发布频率限制
-   * @returns true表示允许发布，false表示频率过高
-   */
-  checkPublishRate(clientId: string): boolean {
-    const now = Date.now();
-    const lastTime = this.getLastPublishTime(clientId);
-    
-    if (now - lastTime < config.message.publishRateLimit) {
-      return false;
-    }
-    
-    this.setLastPublishTime(clientId, now);
-    return true;
+    // 唤醒等待中的长轮询和 SSE 连接，由其检查设备已下线
+    this.notifyPendingListeners(clientId);
   }
 
   /**
@@ -208,21 +192,25 @@ export class DeviceCache implements IDeviceCache {
   /**
    * 添加待接收消息（HTTP模式设备）
    */
-  addPendingMessage(clientId: string, message: ForwardMessage): void {
+  addPendingMessage(clientId: string, message: InboxMessage): void {
     if (!this.pendingMessages.has(clientId)) {
       this.pendingMessages.set(clientId, []);
     }
     const messages = this.pendingMessages.get(clientId)!;
+    const seq = Math.max((this.pendingSeq.get(clientId) ?? 0) + 1, Date.now());
+    this.pendingSeq.set(clientId, seq);
     messages.push({
+      seq: seq,
       message: message,
       timestamp: Date.now()
     });
+    this.notifyPendingListeners(clientId);
   }
 
   /**
    * 获取并清除待接收消息
    */
-  getPendingMessages(clientId: string): ForwardMessage[] {
+  getPendingMessages(clientId: string): InboxMessage[] {
     const messages = this.pendingMessages.get(clientId) || [];
     this.pendingMessages.delete(clientId);
     
@@ -233,6 +221,73 @@ export class DeviceCache implements IDeviceCache {
       .map(m => m.message);
   }
 
+  /**
+   * 获取序号大于 afterSeq 的未过期消息，不清除（确认模式）
+   * afterSeq 大于已分配的最后序号时（如系统时间被回拨），视为游标失效，返回全部未过期消息
+   */
+  peekPendingMessages(clientId: string, afterSeq: number): SequencedInboxMessage[] {
+    const messages = this.pendingMessages.get(clientId) || [];
+    const now = Date.now();
+    const lastSeq = this.pendingSeq.get(clientId) ?? 0;
+    const from = afterSeq > lastSeq ? 0 : afterSeq;
+    return messages
+      .filter(m => m.seq > from && now - m.timestamp < config.message.expireTime)
+      .map(m => ({ ...m.message, seq: m.seq }));
+  }
+
+  /**
+   * 确认并清除序号不大于 seq 的消息
+   * @returns 被确认的未过期消息
+   */
+  ackPendingMessages(clientId: string, seq: number): InboxMessage[] {
+    const messages = this.pendingMessages.get(clientId);
+    if (!messages) return [];
+
+    const now = Date.now();
+    const acked = messages.filter(m => m.seq <= seq && now - m.timestamp < config.message.expireTime);
+    const remaining = messages.filter(m => m.seq > seq);
+    if (remaining.length === 0) {
+      this.pendingMessages.delete(clientId);
+    } else {
+      this.pendingMessages.set(clientId, remaining);
+    }
+    return acked.map(m => m.message);
+  }
+
+  /**
+   * 监听设备的新暂存消息（长轮询、SSE），设备缓存被删除时也会触发
+   * @returns 取消监听的函数
+   */
+  onPendingMessage(clientId: string, listener: () => void): () => void {
+    let listeners = this.pendingListeners.get(clientId);
+    if (!listeners) {
+      listeners = new Set();
+      this.pendingListeners.set(clientId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      const current = this.pendingListeners.get(clientId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.pendingListeners.delete(clientId);
+      }
+    };
+  }
+
+  /**
+   * 通知等待暂存消息的连接
+   */
+  private notifyPendingListeners(clientId: string): void {
+    const listeners = this.pendingListeners.get(clientId);
+    if (!listeners) return;
+    // 监听函数可能在回调中取消监听，先复制一份
+    for (const listener of [...listeners]) {
+      listener();
+    }
+  }
+
   /**
    * 清理过期消息
    */
@@ -336,6 +391,19 @@ export class DeviceCache implements IDeviceCache {
     return mqttClientIds;
   }
 
+  /**
+   * 获取所有在线HTTP设备的clientId列表
+   */
+  getOnlineHttpClientIds(): string[] {
+    const httpClientIds: string[] = [];
+    for (const [clientId, mode] of this.deviceModeMap) {
+      if (mode === 'http' && this.deviceByClientId.has(clientId)) {
+        httpClientIds.push(clientId);
+      }
+    }
+    return httpClientIds;
+  }
+
   /**
    * 销毁缓存实例
    */
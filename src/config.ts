@@ -6,7 +6,7 @@
 
 import { config as dotenvConfig } from 'dotenv';
 import path from 'path';
-import { Config } from './types';
+import { ClientCertMode, Config, GroupJoinPolicy, ScheduleCatchUpPolicy } from './types';
 
 // 加载 .env 文件
 dotenvConfig({ path: path.resolve(process.cwd(), '.env') });
@@ -37,17 +37,86 @@ function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   return value.toLowerCase() === 'true' || value === '1';
 }
 
+/**
+ * 获取定时任务补偿策略环境变量
+ */
+function getEnvCatchUpPolicy(key: string, defaultValue: ScheduleCatchUpPolicy): ScheduleCatchUpPolicy {
+  const value = process.env[key];
+  if (value === 'once' || value === 'skip' || value === 'all') return value;
+  return defaultValue;
+}
+
+/**
+ * 获取组加入方式环境变量
+ */
+function getEnvJoinPolicy(key: string, defaultValue: GroupJoinPolicy): GroupJoinPolicy {
+  const value = process.env[key];
+  if (value === 'open' || value === 'invite' || value === 'approval') return value;
+  return defaultValue;
+}
+
+/**
+ * 获取客户端证书认证方式环境变量
+ */
+function getEnvClientCertMode(key: string, defaultValue: ClientCertMode): ClientCertMode {
+  const value = process.env[key];
+  if (value === 'off' || value === 'optional' || value === 'required') return value;
+  return defaultValue;
+}
+
 const config: Config = {
   // MQTT服务器配置
   mqtt: {
+    // MQTT 端口，0 表示不启用明文 MQTT（仅使用 MQTTS）
     port: getEnvNumber('MQTT_PORT', 1883),
-    host: getEnv('MQTT_HOST', '0.0.0.0')
+    host: getEnv('MQTT_HOST', '0.0.0.0'),
+    // MQTT over WebSocket 端口（浏览器客户端使用），0 表示不启用
+    wsPort: getEnvNumber('MQTT_WS_PORT', 0),
+    // MQTT over WebSocket 路径
+    wsPath: getEnv('MQTT_WS_PATH', '/mqtt')
   },
 
   // HTTP服务器配置
   http: {
     port: getEnvNumber('HTTP_PORT', 3000),
-    host: getEnv('HTTP_HOST', '0.0.0.0')
+    host: getEnv('HTTP_HOST', '0.0.0.0'),
+    // GET /device/r?wait= 长轮询最长等待时间（秒）
+    longPollMaxWait: getEnvNumber('HTTP_LONG_POLL_MAX_WAIT', 60),
+    // GET /device/stream 心跳间隔（毫秒），心跳同时刷新设备活动时间
+    sseHeartbeat: getEnvNumber('HTTP_SSE_HEARTBEAT', 30000)
+  },
+
+  // Web 用户接口配置
+  web: {
+    port: getEnvNumber('WEB_PORT', 3001),
+    host: getEnv('WEB_HOST', '0.0.0.0')
+  },
+
+  // TLS 配置（TLS_CERT 和 TLS_KEY 同时配置后启用）
+  tls: {
+    // 服务端证书和私钥文件路径（PEM，相对路径基于启动目录）
+    cert: getEnv('TLS_CERT', ''),
+    key: getEnv('TLS_KEY', ''),
+    // 签发设备客户端证书的 CA 文件路径（PEM）
+    ca: getEnv('TLS_CA', ''),
+    // MQTTS 端口，0 表示不启用
+    mqttsPort: getEnvNumber('MQTTS_PORT', 8883),
+    // 设备 HTTP 接口、Web 用户接口和 MQTT WebSocket 是否改用 HTTPS / WSS
+    https: getEnvBoolean('HTTPS_ENABLED', false),
+    // MQTTS 设备客户端证书认证方式：off | optional | required（需配置 TLS_CA）
+    clientCert: getEnvClientCertMode('MQTT_CLIENT_CERT', 'off')
+  },
+
+  // 对外连接地址（GET /device/auth 返回给设备），Broker 位于 NAT 或反向代理之后时配置
+  public: {
+    // 设备可访问的 Broker 主机名或 IP，为空时使用设备请求的 Host 头
+    host: getEnv('PUBLIC_HOST', ''),
+    // 为 true 时优先使用请求的 Host 头（多个网络接入时设备按各自访问的地址连接）
+    hostFromRequest: getEnvBoolean('PUBLIC_HOST_FROM_REQUEST', false),
+    // 对外端口（端口映射时配置），0 表示与监听端口相同
+    mqttPort: getEnvNumber('PUBLIC_MQTT_PORT', 0),
+    mqttsPort: getEnvNumber('PUBLIC_MQTTS_PORT', 0),
+    wsPort: getEnvNumber('PUBLIC_WS_PORT', 0)
   },
 
   // 消息限制配置
@@ -60,10 +129,23 @@ const config: Config = {
     expireTime: getEnvNumber('MESSAGE_EXPIRE_TIME', 120 * 1000)
   },
 
+  // 组配置
+  groups: {
+    // 设备通过 POST /device/group 创建的组的加入方式：open | invite | approval
+    // 设备注册时自动创建的默认组（以 uuid 为组名）始终为 approval
+    defaultJoinPolicy: getEnvJoinPolicy('GROUP_JOIN_POLICY', 'open'),
+    // 邀请码默认有效期（毫秒）
+    inviteTtl: getEnvNumber('GROUP_INVITE_TTL', 24 * 60 * 60 * 1000)
+  },
+
   // 时序数据配置
   timeseries: {
     // 时序数据最大存储天数，超过此时间的记录将被自动清除
-    retentionDays: getEnvNumber('TIMESERIES_RETENTION_DAYS', 30)
+    retentionDays: getEnvNumber('TIMESERIES_RETENTION_DAYS', 30),
+    // 小时汇总保留天数
+    rollupHourlyRetentionDays: getEnvNumber('TIMESERIES_ROLLUP_HOURLY_RETENTION_DAYS', 180),
+    // 天汇总保留天数
+    rollupDailyRetentionDays: getEnvNumber('TIMESERIES_ROLLUP_DAILY_RETENTION_DAYS', 1825)
   },
 
   // 缓存配置
@@ -72,12 +154,38 @@ const config: Config = {
     cleanupInterval: getEnvNumber('CACHE_CLEANUP_INTERVAL', 10000)
   },
 
+  // MQTT 设备离线消息队列配置
+  offlineQueue: {
+    // 是否为离线的 MQTT 设备保存消息，设备上线后补发
+    enabled: getEnvBoolean('OFFLINE_QUEUE_ENABLED', true),
+    // 每个设备最多保存的消息数，超出后丢弃最早的消息
+    maxDepth: getEnvNumber('OFFLINE_QUEUE_MAX_DEPTH', 100),
+    // 消息保存时间（毫秒），超时未投递的消息将被丢弃
+    ttl: getEnvNumber('OFFLINE_QUEUE_TTL', 24 * 60 * 60 * 1000)
+  },
+
   // 数据库配置
   database: {
     // 数据库文件名（相对于data目录）
     filename: getEnv('DB_FILENAME', 'broker.db')
   },
 
+  // 定时任务配置
+  scheduler: {
+    // Broker 停机期间错过执行时间的任务补偿策略：once | skip | all
+    catchUpPolicy: getEnvCatchUpPolicy('SCHEDULE_CATCHUP_POLICY', 'once'),
+    // all 策略下单个循环任务最多补执行的次数
+    maxCatchUpRuns: getEnvNumber('SCHEDULE_CATCHUP_MAX_RUNS', 100),
+    // cron 任务未指定时区时使用的默认时区（默认为系统时区）
+    defaultTimezone: getEnv('SCHEDULE_TIMEZONE', Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'),
+    // 设置了 retryWindow 的任务，目标离线时的重试间隔（毫秒）
+    retryInterval: getEnvNumber('SCHEDULE_RETRY_INTERVAL', 30000),
+    // 任务可设置的最长重试时长（秒）
+    maxRetryWindow: getEnvNumber('SCHEDULE_RETRY_MAX_WINDOW', 86400),
+    // 执行记录保留天数
+    runRetentionDays: getEnvNumber('SCHEDULE_RUN_RETENTION_DAYS', 30)
+  },
+
   // Bridge 桥接配置（跨 Broker 通信）
   bridge: {
     // 是否启用 bridge 功能（首次启动时自动设置为 true）
@@ -88,6 +196,16 @@ const config: Config = {
     token: getEnv('BRIDGE_TOKEN', ''),
     // 断线重连间隔（毫秒）
     reconnectInterval: getEnvNumber('BRIDGE_RECONNECT_INTERVAL', 5000)
+  },
+
+  // 控制通道配置（Web 进程通过本机回环 HTTP 通知 Broker 进程）
+  control: {
+    // Broker 进程监听的控制通道端口（仅监听 127.0.0.1）
+    port: getEnvNumber('CONTROL_PORT', 3002),
+    // 共享密钥（通过 CLI 启动时自动生成并写入 .env），为空时不启用控制通道
+    token: getEnv('CONTROL_TOKEN', ''),
+    // Web 进程请求超时（毫秒）
+    timeout: getEnvNumber('CONTROL_TIMEOUT', 3000)
   }
 };
 
@@ -0,0 +1,332 @@
+/**
+ * 控制通道 - Broker 与 Web 进程间通信
+ *
+ * Broker 和 Web 用户接口运行在两个进程中，共享同一个数据库，但设备缓存、在线连接、
+ * 发布限制缓存、Bridge 连接和定时任务调度器只存在于 Broker 进程。
+ * Web 进程修改数据库后通过控制通道通知 Broker 进程同步这些实时状态，
+ * 也通过控制通道读取 Broker 的实时在线状态。
+ *
+ * 传输方式：Broker 进程在 127.0.0.1:CONTROL_PORT 上监听 HTTP，
+ * 请求需在 x-control-token 头中携带 CONTROL_TOKEN
+ *   POST /control/:action   Body 为命令参数，响应 { message: 1000, detail: 结果 }
+ *
+ * 在 Broker 进程中（已调用 init）命令直接在本进程执行；
+ * Web 进程连接不到 Broker（未启动或未配置 CONTROL_TOKEN）时命令也在本进程执行，
+ * 只完成数据库部分，实时状态在 Broker 下次启动时从数据库加载
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { ApiResponse, BrokerLiveState, IDeviceCache } from './types';
+import config from './config';
+import { logger } from './logger';
+import { router } from './router';
+import { bridge, RemoteSharedDeviceEntry } from './bridge';
+import { limiter } from './limits';
+import { shadow } from './shadow';
+import { scheduler } from './scheduler';
+import { deviceManager } from './devices';
+import { getDeviceById, getBridgeRemoteByBrokerId, deleteScheduledTask } from './database';
+
+/** 控制通道只监听本机回环地址 */
+const CONTROL_HOST = '127.0.0.1';
+
+/**
+ * 控制命令处理函数，在 Broker 进程中执行
+ * 参数和返回值需可 JSON 序列化
+ */
+const handlers = {
+  /**
+   * 重新加载设备的组成员关系（组成员变更后调用）
+   */
+  refreshDeviceGroups({ deviceIds }: { deviceIds: number[] }): void {
+    for (const deviceId of deviceIds) {
+      const device = getDeviceById(deviceId);
+      if (device) {
+        router.refreshDeviceGroups(device);
+      }
+    }
+  },
+
+  /**
+   * 清除发布限制缓存（限制配置或分配变更后调用）
+   */
+  invalidateLimits(): void {
+    limiter.invalidate();
+  },
+
+  /**
+   * 删除设备并断开连接
+   */
+  deleteDevice({ deviceId }: { deviceId: number }): { disconnected: boolean } {
+    const device = getDeviceById(deviceId);
+    return { disconnected: device ? deviceManager.delete(device) : false };
+  },
+
+  /**
+   * 停用或启用设备，停用时断开连接
+   */
+  setDeviceDisabled({ deviceId, disabled }: { deviceId: number; disabled: boolean }): { disconnected: boolean } {
+    const device = getDeviceById(deviceId);
+    return { disconnected: device ? deviceManager.setDisabled(device, disabled) : false };
+  },
+
+  /**
+   * 更换设备 authKey 并断开连接
+   */
+  rotateDeviceKey({ deviceId }: { deviceId: number }): { authKey: string; disconnected: boolean } | null {
+    const device = getDeviceById(deviceId);
+    return device ? deviceManager.rotateKey(device) : null;
+  },
+
+  /**
+   * 推送设备影子差异给在线设备（desired 变更后调用）
+   */
+  pushShadowDelta({ deviceId }: { deviceId: number }): { pushed: boolean } {
+    const device = getDeviceById(deviceId);
+    return { pushed: device ? shadow.pushDelta(device) : false };
+  },
+
+  /**
+   * 按数据库中的配置重新连接远程 Broker：已删除或已禁用则断开，否则（重新）连接
+   */
+  reloadBridgeRemote({ brokerId }: { brokerId: string }): void {
+    if (!config.bridge.enabled) return;
+
+    const remote = getBridgeRemoteByBrokerId(brokerId);
+    if (!remote || remote.enabled !== 1) {
+      bridge.removeRemote(brokerId);
+      return;
+    }
+    bridge.updateRemote({ id: remote.broker_id, url: remote.url, token: remote.token, ca: remote.ca_cert ?? undefined });
+  },
+
+  /**
+   * 重新同步与远程 Broker 共享的设备列表
+   */
+  syncSharedDevices({ brokerIds }: { brokerIds: string[] }): void {
+    if (!config.bridge.enabled) return;
+
+    for (const brokerId of brokerIds) {
+      bridge.syncSharedDevicesToBroker(brokerId);
+    }
+  },
+
+  /**
+   * 获取远程 Broker 共享给本机的设备列表
+   */
+  getRemoteSharedDevices({ brokerId }: { brokerId: string }): RemoteSharedDeviceEntry[] {
+    return bridge.getRemoteSharedDevices(brokerId);
+  },
+
+  /**
+   * 取消以组为目标的定时任务（组删除后调用，数据库记录在 deleteGroup 中删除）
+   */
+  cancelGroupSchedules({ groupName }: { groupName: string }): { cancelled: number } {
+    return { cancelled: scheduler.cancelTasksByTarget('group', groupName) };
+  },
+
+  /**
+   * 取消定时任务（不在 Broker 进程中时只删除数据库记录）
+   */
+  cancelSchedule({ taskId }: { taskId: string }): { cancelled: boolean } {
+    return { cancelled: scheduler.cancelTask(taskId) || deleteScheduledTask(taskId).changes > 0 };
+  },
+
+  /**
+   * 获取 Broker 实时状态，不在 Broker 进程中时返回 null
+   */
+  getLiveState(_params: undefined, deviceCache: IDeviceCache | null): BrokerLiveState | null {
+    if (!deviceCache) return null;
+
+    return {
+      onlineMqtt: deviceCache.getOnlineMqttClientIds(),
+      onlineHttp: deviceCache.getOnlineHttpClientIds(),
+      cache: deviceCache.getStats(),
+      scheduler: scheduler.getStats(),
+      bridgeConnected: bridge.getConnectedRemotes()
+    };
+  }
+};
+
+type ControlHandlers = typeof handlers;
+
+/** 控制命令名 */
+export type ControlAction = keyof ControlHandlers;
+
+/** 控制命令参数 */
+export type ControlParams<A extends ControlAction> = Parameters<ControlHandlers[A]>[0];
+
+/** 无参数的命令可省略参数 */
+type ControlArgs<A extends ControlAction> = undefined extends ControlParams<A> ? [params?: ControlParams<A>] : [params: ControlParams<A>];
+
+/** 控制命令结果 */
+export type ControlResult<A extends ControlAction> = ReturnType<ControlHandlers[A]>;
+
+/**
+ * 控制通道请求失败（Broker 返回错误或请求超时）
+ */
+export class ControlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ControlError';
+  }
+}
+
+/**
+ * 比较控制通道密钥（固定时间比较）
+ */
+function isValidControlToken(token: unknown): boolean {
+  if (typeof token !== 'string' || !config.control.token) return false;
+  const expected = Buffer.from(config.control.token);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * 控制通道
+ */
+class BrokerControl {
+  private deviceCache: IDeviceCache | null = null;
+  private server: FastifyInstance | null = null;
+
+  /**
+   * 初始化（Broker 进程中调用），之后命令直接在本进程执行
+   */
+  init(deviceCache: IDeviceCache): void {
+    this.deviceCache = deviceCache;
+  }
+
+  /**
+   * 启动控制通道服务（Broker 进程中调用），未配置 CONTROL_TOKEN 时不启动
+   */
+  async start(): Promise<void> {
+    if (!config.control.token) {
+      logger.warn('未配置 CONTROL_TOKEN，控制通道未启动，Web 接口的修改将在 Broker 重启后生效');
+      return;
+    }
+
+    const server = Fastify({ logger: false });
+
+    server.setErrorHandler((error, _request, reply) => {
+      logger.error('控制命令执行失败:', error);
+      reply.status(500).send({
+        message: 1002,
+        detail: error.message
+      });
+    });
+
+    server.post('/control/:action', async (request: FastifyRequest<{ Params: { action: string } }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+      if (!isValidControlToken(request.headers['x-control-token'])) {
+        return reply.status(401).send({
+          message: 1008,
+          detail: '控制通道密钥无效'
+        });
+      }
+
+      const { action } = request.params;
+      if (!Object.prototype.hasOwnProperty.call(handlers, action)) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `未知的控制命令: ${action}`
+        });
+      }
+
+      logger.control(`收到控制命令: ${action}`);
+      const result = this.execute(action as ControlAction, (request.body ?? {}) as never);
+      return {
+        message: 1000,
+        detail: result ?? null
+      };
+    });
+
+    await server.listen({ port: config.control.port, host: CONTROL_HOST });
+    this.server = server;
+    console.log(`控制通道已启动，监听 ${CONTROL_HOST}:${config.control.port}`);
+  }
+
+  /**
+   * 停止控制通道服务
+   */
+  async stop(): Promise<void> {
+    if (this.server) {
+      await this.server.close();
+      this.server = null;
+    }
+  }
+
+  /**
+   * 执行控制命令
+   * Broker 进程中直接执行；Web 进程中发送给 Broker 进程，连接不到 Broker 时在本进程执行
+   * @throws ControlError Broker 返回错误或请求超时
+   */
+  async call<A extends ControlAction>(action: A, ...[params]: ControlArgs<A>): Promise<ControlResult<A>> {
+    if (this.deviceCache || !config.control.token) {
+      return this.execute(action, params);
+    }
+
+    try {
+      return await this.request(action, params) as ControlResult<A>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ECONNREFUSED') throw error;
+      logger.warn(`无法连接 Broker 控制通道（${CONTROL_HOST}:${config.control.port}），命令 ${action} 仅在本进程执行`);
+      return this.execute(action, params);
+    }
+  }
+
+  /**
+   * 在本进程执行控制命令
+   */
+  private execute<A extends ControlAction>(action: A, params: ControlParams<A> | undefined): ControlResult<A> {
+    const handler = handlers[action] as (params: ControlParams<A> | undefined, deviceCache: IDeviceCache | null) => ControlResult<A>;
+    return handler(params, this.deviceCache);
+  }
+
+  /**
+   * 通过控制通道请求 Broker 进程
+   */
+  private request(action: ControlAction, params: unknown): Promise<unknown> {
+    const body = JSON.stringify(params ?? {});
+
+    return new Promise((resolve, reject) => {
+      const req = http.request({
+        host: CONTROL_HOST,
+        port: config.control.port,
+        path: `/control/${action}`,
+        method: 'POST',
+        timeout: config.control.timeout,
+        headers: {
+          'content-type': 'application/json',
+          'content-length': Buffer.byteLength(body),
+          'x-control-token': config.control.token
+        }
+      }, (res) => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => { data += chunk; });
+        res.on('end', () => {
+          try {
+            const response = JSON.parse(data) as ApiResponse;
+            if (res.statusCode === 200 && response.message === 1000) {
+              resolve(response.detail);
+            } else {
+              reject(new ControlError(`控制命令 ${action} 执行失败: ${String(response.detail)}`));
+            }
+          } catch {
+            reject(new ControlError(`控制命令 ${action} 响应格式错误`));
+          }
+        });
+      });
+
+      req.on('timeout', () => {
+        req.destroy(new ControlError(`控制命令 ${action} 请求超时`));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
+
+// 导出单例
+export const brokerControl = new BrokerControl();
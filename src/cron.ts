@@ -0,0 +1,268 @@
+/**
+ * Cron 表达式解析与计算
+ * 支持标准 5 段（分 时 日 月 周）和 6 段（秒 分 时 日 月 周）表达式，
+ * 以及 IANA 时区（如 Asia/Shanghai），通过 Intl API 处理夏令时
+ *
+ * 字段语法: *  ?  a  a-b  a,b,c  *\/n  a-b/n  a/n
+ * 月份和星期支持英文缩写（JAN-DEC、SUN-SAT），星期 0 和 7 都表示周日
+ * 同时限定了「日」和「周」时，两者满足其一即触发（与 Vixie cron 一致）
+ */
+
+/**
+ * 解析后的 Cron 表达式
+ */
+export interface CronSchedule {
+  seconds: boolean[];       // 0-59
+  minutes: boolean[];       // 0-59
+  hours: boolean[];         // 0-23
+  daysOfMonth: boolean[];   // 1-31
+  months: boolean[];        // 1-12
+  daysOfWeek: boolean[];    // 0-6（0 为周日）
+  domRestricted: boolean;   // 「日」字段是否有限定（非 * / ?）
+  dowRestricted: boolean;   // 「周」字段是否有限定（非 * / ?）
+}
+
+/** 预定义宏 */
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** 查找下一次触发时间时最多向后搜索的年数（如 2 月 30 日永远不会触发） */
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * 解析单个字段
+ */
+function parseField(field: string, min: number, max: number, name: string, names?: string[]): { values: boolean[]; restricted: boolean } {
+  const values: boolean[] = new Array(max + 1).fill(false);
+  let restricted = true;
+
+  const toNumber = (token: string): number => {
+    const upper = token.toUpperCase();
+    if (names) {
+      const index = names.indexOf(upper);
+      if (index !== -1) return index + (name === '月' ? 1 : 0);
+    }
+    if (!/^\d+$/.test(token)) {
+      throw new Error(`cron 表达式「${name}」字段无效: ${token}`);
+    }
+    return parseInt(token, 10);
+  };
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rangePart === undefined || rangePart === '' || rest.length > 0) {
+      throw new Error(`cron 表达式「${name}」字段无效: ${part}`);
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) === 0) {
+        throw new Error(`cron 表达式「${name}」字段步长无效: ${part}`);
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*' || rangePart === '?') {
+      start = min;
+      end = max;
+      if (stepPart === undefined) restricted = false;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = toNumber(a ?? '');
+      end = toNumber(b ?? '');
+    } else {
+      start = toNumber(rangePart);
+      // a/n 表示从 a 开始到最大值，每隔 n
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`cron 表达式「${name}」字段超出范围 ${min}-${max}: ${part}`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values[v] = true;
+    }
+  }
+
+  return { values, restricted };
+}
+
+/**
+ * 解析 cron 表达式
+ * @throws 表达式无效时抛出错误
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new Error('cron 表达式必须为 5 段或 6 段');
+  }
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+
+  const [sec, min, hour, dom, month, dow] = fields as [string, string, string, string, string, string];
+
+  const daysOfWeekField = parseField(dow, 0, 7, '周', DAY_NAMES);
+  // 7 同样表示周日
+  if (daysOfWeekField.values[7]) {
+    daysOfWeekField.values[0] = true;
+  }
+  const daysOfMonthField = parseField(dom, 1, 31, '日');
+
+  return {
+    seconds: parseField(sec, 0, 59, '秒').values,
+    minutes: parseField(min, 0, 59, '分').values,
+    hours: parseField(hour, 0, 23, '时').values,
+    daysOfMonth: daysOfMonthField.values,
+    months: parseField(month, 1, 12, '月', MONTH_NAMES).values,
+    daysOfWeek: daysOfWeekField.values.slice(0, 7),
+    domRestricted: daysOfMonthField.restricted,
+    dowRestricted: daysOfWeekField.restricted
+  };
+}
+
+/** 各时区的日期格式化器缓存 */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * 获取指定时区的日期格式化器
+ */
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * 检查时区名称是否有效
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 获取指定时刻在时区中的本地时间，以「UTC 毫秒数」形式表示（秒级精度）
+ */
+function toWallClock(timestamp: number, timezone: string): number {
+  const parts = getFormatter(timezone).formatToParts(new Date(timestamp));
+  const get = (type: string): number => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+}
+
+/**
+ * 将时区本地时间转换为时间戳
+ * @returns 时间戳；本地时间因夏令时跳变而不存在时返回 null
+ */
+function fromWallClock(wallClock: number, timezone: string): number | null {
+  const guess = wallClock - (toWallClock(wallClock, timezone) - wallClock);
+  const timestamp = wallClock - (toWallClock(guess, timezone) - guess);
+  return toWallClock(timestamp, timezone) === wallClock ? timestamp : null;
+}
+
+/**
+ * 检查某一天是否满足「日」和「周」字段
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth[date.getUTCDate()] === true;
+  const dowMatch = schedule.daysOfWeek[date.getUTCDay()] === true;
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * 计算指定时刻之后的下一次触发时间
+ * @param schedule 解析后的 cron 表达式
+ * @param timezone IANA 时区
+ * @param after 起始时间戳（不含）
+ * @returns 下一次触发时间戳，在搜索范围内找不到时返回 null
+ */
+export function getNextCronTime(schedule: CronSchedule, timezone: string, after: number): number | null {
+  // 从 after 之后的下一整秒开始，在时区本地时间上逐字段推进
+  const start = toWallClock(Math.floor(after / 1000) * 1000 + 1000, timezone);
+  const date = new Date(start);
+  const maxYear = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= maxYear) {
+    if (!schedule.months[date.getUTCMonth() + 1]) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours[date.getUTCHours()]) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes[date.getUTCMinutes()]) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    if (!schedule.seconds[date.getUTCSeconds()]) {
+      date.setUTCSeconds(date.getUTCSeconds() + 1, 0);
+      continue;
+    }
+
+    const timestamp = fromWallClock(date.getTime(), timezone);
+    if (timestamp !== null && timestamp > after) {
+      return timestamp;
+    }
+    // 夏令时跳过的本地时间，或回拨时重复的本地时间，继续向后查找
+    date.setUTCSeconds(date.getUTCSeconds() + 1, 0);
+  }
+
+  return null;
+}
+
+/**
+ * 计算指定时刻之后的若干次触发时间
+ */
+export function getNextCronTimes(schedule: CronSchedule, timezone: string, after: number, count: number): number[] {
+  const result: number[] = [];
+  let cursor = after;
+  while (result.length < count) {
+    const next = getNextCronTime(schedule, timezone, cursor);
+    if (next === null) break;
+    result.push(next);
+    cursor = next;
+  }
+  return result;
+}
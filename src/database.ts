@@ -2,7 +2,7 @@ import Database, { Statement, Database as BetterSqlite3Database, RunResult } fro
 import path from 'path';
 import fs from 'fs';
 import crypto from 'crypto';
-import { Device, Group, BridgeRemote, DeviceConfig } from './types';
+import { Device, Group, DeviceGroup, GroupInvite, GroupJoinPolicy, GroupMemberStatus, BridgeRemote, DeviceConfig, ScheduledTask, ScheduledTaskRecord, ScheduleRunRecord, OfflineMessageRecord, LimitProfile, LimitAction, TimeseriesBucketRow, TimeseriesRollupResolution } from './types';
 import config from './config';
 
 let db: BetterSqlite3Database | null = null;
@@ -16,6 +16,12 @@ const stmtCache = new Map<string, Statement<unknown[], unknown>>();
 /** 已验证存在的时序数据分表缓存 */
 const verifiedTimeseriesTables = new Set<string>();
 
+/** 时序数据汇总粒度及对应的桶宽度（毫秒），桶对齐到 UTC */
+export const TIMESERIES_ROLLUP_RESOLUTIONS: Readonly<Record<TimeseriesRollupResolution, number>> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
 /**
  * 获取预编译语句（懒加载 + 缓存）
  * @param key - 语句的唯一标识
@@ -37,6 +43,19 @@ function clearStmtCache(): void {
   verifiedTimeseriesTables.clear();
 }
 
+/**
+ * 为已存在的表补充新增列（旧版本数据库升级）
+ * @returns 是否新增了该列
+ */
+function ensureColumn(database: BetterSqlite3Database, table: string, column: string, definition: string): boolean {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+  return false;
+}
+
 /**
  * 初始化数据库
  */
@@ -123,6 +142,8 @@ export function initDatabase(): BetterSqlite3Database {
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
+  // 固定的远程 Broker CA 证书（PEM），mqtts:// 和 wss:// 连接时只信任该 CA
+  ensureColumn(db, 'bridge_remotes', 'ca_cert', 'TEXT');
 
   // 创建 Bridge 共享设备表
   db.exec(`
@@ -143,12 +164,153 @@ export function initDatabase(): BetterSqlite3Database {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       device_id INTEGER NOT NULL,
       config TEXT NOT NULL DEFAULT '{}',
+      reported TEXT NOT NULL DEFAULT '{}',
+      metadata TEXT NOT NULL DEFAULT '{}',
+      version INTEGER NOT NULL DEFAULT 0,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (device_id) REFERENCES devices(id),
       UNIQUE(device_id)
     )
   `);
+  ensureColumn(db, 'device_config', 'reported', "TEXT NOT NULL DEFAULT '{}'");
+  ensureColumn(db, 'device_config', 'metadata', "TEXT NOT NULL DEFAULT '{}'");
+  ensureColumn(db, 'device_config', 'version', 'INTEGER NOT NULL DEFAULT 0');
+
+  // 创建定时任务表
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduled_tasks (
+      id TEXT PRIMARY KEY,
+      device_id TEXT NOT NULL,
+      command TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      execute_at INTEGER NOT NULL,
+      interval INTEGER,
+      cron TEXT,
+      timezone TEXT,
+      created_at INTEGER NOT NULL,
+      last_executed_at INTEGER,
+      enabled INTEGER DEFAULT 1
+    )
+  `);
+  ensureColumn(db, 'scheduled_tasks', 'cron', 'TEXT');
+  ensureColumn(db, 'scheduled_tasks', 'timezone', 'TEXT');
+
+  ensureColumn(db, 'scheduled_tasks', 'target_type', "TEXT NOT NULL DEFAULT 'device'");
+  ensureColumn(db, 'scheduled_tasks', 'retry_window', 'INTEGER');
+  ensureColumn(db, 'scheduled_tasks', 'solar', 'TEXT');
+
+  // 定时任务创建者，设备只能查看和管理自己创建的任务
+  if (ensureColumn(db, 'scheduled_tasks', 'owner_device_id', 'INTEGER REFERENCES devices(id)')) {
+    // 旧版本创建的任务归目标设备所有，目标设备不存在的任务只能通过用户接口管理
+    db.exec(`
+      UPDATE scheduled_tasks
+      SET owner_device_id = (SELECT id FROM devices WHERE client_id = scheduled_tasks.device_id)
+    `);
+  }
+
+  // 创建定时任务执行记录表（任务删除后保留，按 SCHEDULE_RUN_RETENTION_DAYS 清理）
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schedule_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id TEXT NOT NULL,
+      owner_device_id INTEGER,
+      target_type TEXT NOT NULL,
+      target TEXT NOT NULL,
+      fired_at INTEGER NOT NULL,
+      executed_at INTEGER NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 1,
+      target_online INTEGER,
+      route TEXT,
+      error TEXT,
+      FOREIGN KEY (owner_device_id) REFERENCES devices(id)
+    )
+  `);
+
+  // 创建 MQTT 设备离线消息表
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS offline_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      device_id INTEGER NOT NULL,
+      payload TEXT NOT NULL,
+      qos INTEGER DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (device_id) REFERENCES devices(id)
+    )
+  `);
+  ensureColumn(db, 'offline_messages', 'qos', 'INTEGER DEFAULT 0');
+
+  // 创建发布限制配置表
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS limit_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      rate INTEGER NOT NULL,
+      interval INTEGER NOT NULL,
+      burst INTEGER NOT NULL,
+      max_length INTEGER NOT NULL,
+      action TEXT NOT NULL DEFAULT 'disconnect',
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  ensureColumn(db, 'devices', 'limit_profile_id', 'INTEGER REFERENCES limit_profiles(id)');
+  ensureColumn(db, 'devices', 'disabled', 'INTEGER NOT NULL DEFAULT 0');
+  ensureColumn(db, 'groups', 'limit_profile_id', 'INTEGER REFERENCES limit_profiles(id)');
+
+  // 组所有者与加入方式，pending 成员为等待审批的加入申请
+  const ownerAdded = ensureColumn(db, 'groups', 'owner_device_id', 'INTEGER REFERENCES devices(id)');
+  ensureColumn(db, 'groups', 'join_policy', "TEXT NOT NULL DEFAULT 'open'");
+  ensureColumn(db, 'device_groups', 'status', "TEXT NOT NULL DEFAULT 'active'");
+  if (ownerAdded) {
+    // 旧版本设备注册时创建的默认组（以 uuid 为组名）归该设备所有，改为需要审批
+    db.exec(`
+      UPDATE groups
+      SET owner_device_id = (SELECT id FROM devices WHERE uuid = groups.name), join_policy = 'approval'
+      WHERE name IN (SELECT uuid FROM devices)
+    `);
+  }
+
+  // 创建组邀请码表
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS group_invites (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      group_id INTEGER NOT NULL,
+      code TEXT UNIQUE NOT NULL,
+      expires_at INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (group_id) REFERENCES groups(id)
+    )
+  `);
+
+  // 创建时序数据汇总表（按小时 / 天汇总，原始分表过期删除后仍保留长期趋势）
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS timeseries_rollups (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      resolution TEXT NOT NULL,
+      device_uuid TEXT NOT NULL,
+      data_key TEXT NOT NULL,
+      bucket INTEGER NOT NULL,
+      count INTEGER NOT NULL,
+      sum REAL NOT NULL,
+      min REAL NOT NULL,
+      max REAL NOT NULL,
+      first REAL,
+      first_ts INTEGER,
+      last REAL,
+      last_ts INTEGER,
+      UNIQUE(resolution, device_uuid, data_key, bucket)
+    )
+  `);
+
+  // 记录已汇总的时序数据分表
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS timeseries_rollup_tables (
+      table_name TEXT PRIMARY KEY,
+      rolled_up_at INTEGER NOT NULL
+    )
+  `);
 
   // 创建索引
   db.exec(`
@@ -162,6 +324,16 @@ export function initDatabase(): BetterSqlite3Database {
     CREATE INDEX IF NOT EXISTS idx_bridge_shared_devices_broker ON bridge_shared_devices(broker_id);
     CREATE INDEX IF NOT EXISTS idx_bridge_shared_devices_device ON bridge_shared_devices(device_id);
     CREATE INDEX IF NOT EXISTS idx_device_config_device_id ON device_config(device_id);
+    CREATE INDEX IF NOT EXISTS idx_scheduled_tasks_device_id ON scheduled_tasks(device_id);
+    CREATE INDEX IF NOT EXISTS idx_schedule_runs_task_id ON schedule_runs(task_id);
+    CREATE INDEX IF NOT EXISTS idx_schedule_runs_owner_device_id ON schedule_runs(owner_device_id);
+    CREATE INDEX IF NOT EXISTS idx_schedule_runs_fired_at ON schedule_runs(fired_at);
+    CREATE INDEX IF NOT EXISTS idx_offline_messages_device_id ON offline_messages(device_id);
+    CREATE INDEX IF NOT EXISTS idx_offline_messages_expires_at ON offline_messages(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_devices_limit_profile_id ON devices(limit_profile_id);
+    CREATE INDEX IF NOT EXISTS idx_groups_limit_profile_id ON groups(limit_profile_id);
+    CREATE INDEX IF NOT EXISTS idx_group_invites_group_id ON group_invites(group_id);
+    CREATE INDEX IF NOT EXISTS idx_timeseries_rollups_bucket ON timeseries_rollups(resolution, bucket);
   `);
 
   console.log('数据库表结构初始化完成');
@@ -250,12 +422,37 @@ export function updateDeviceConnection(
 
 /**
  * 创建组
+ * @param ownerDeviceId 所有者设备，管理员创建的组可以没有所有者
  */
-export function createGroup(name: string): RunResult {
+export function createGroup(name: string, ownerDeviceId: number | null = null, joinPolicy: GroupJoinPolicy = 'open'): RunResult {
   const stmt = getStmt('createGroup', `
-    INSERT OR IGNORE INTO groups (name) VALUES (?)
+    INSERT OR IGNORE INTO groups (name, owner_device_id, join_policy) VALUES (?, ?, ?)
   `);
-  return stmt.run(name);
+  return stmt.run(name, ownerDeviceId, joinPolicy);
+}
+
+/**
+ * 修改组的加入方式或所有者
+ */
+export function updateGroup(groupId: number, updates: { join_policy?: GroupJoinPolicy; owner_device_id?: number | null }): RunResult {
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  for (const [column, value] of Object.entries(updates)) {
+    if (value !== undefined) {
+      fields.push(`${column} = ?`);
+      values.push(value);
+    }
+  }
+
+  if (fields.length === 0) {
+    return { changes: 0 } as RunResult;
+  }
+
+  values.push(groupId);
+
+  const sql = `UPDATE groups SET ${fields.join(', ')} WHERE id = ?`;
+  return getDb().prepare(sql).run(...values);
 }
 
 /**
@@ -270,50 +467,212 @@ export function getGroupByName(name: string): Group | undefined {
 
 /**
  * 将设备添加到组
+ * @param status 为 pending 时记录加入申请；已是正式成员的设备不会被降为 pending
  */
-export function addDeviceToGroup(deviceId: number, groupId: number): RunResult {
+export function addDeviceToGroup(deviceId: number, groupId: number, status: GroupMemberStatus = 'active'): RunResult {
   const stmt = getStmt('addDeviceToGroup', `
-    INSERT OR IGNORE INTO device_groups (device_id, group_id) VALUES (?, ?)
+    INSERT INTO device_groups (device_id, group_id, status) VALUES (?, ?, ?)
+    ON CONFLICT(device_id, group_id) DO UPDATE SET status = excluded.status
+    WHERE device_groups.status = 'pending' AND excluded.status = 'active'
   `);
-  return stmt.run(deviceId, groupId);
+  return stmt.run(deviceId, groupId, status);
+}
+
+/**
+ * 获取设备在组中的成员记录（包括等待审批的申请）
+ */
+export function getGroupMembership(deviceId: number, groupId: number): DeviceGroup | undefined {
+  const stmt = getStmt('getGroupMembership', `
+    SELECT * FROM device_groups WHERE device_id = ? AND group_id = ?
+  `);
+  return stmt.get(deviceId, groupId) as DeviceGroup | undefined;
 }
 
 /**
- * 获取设备所在的所有组
+ * 获取设备所在的所有组（不含等待审批的申请）
  */
 export function getDeviceGroups(deviceId: number): Group[] {
   const stmt = getStmt('getDeviceGroups', `
     SELECT g.* FROM groups g
     INNER JOIN device_groups dg ON g.id = dg.group_id
-    WHERE dg.device_id = ?
+    WHERE dg.device_id = ? AND dg.status = 'active'
   `);
   return stmt.all(deviceId) as Group[];
 }
 
 /**
- * 获取组内所有设备
+ * 获取组内所有设备（不含等待审批的申请）
  */
 export function getGroupDevices(groupId: number): Device[] {
   const stmt = getStmt('getGroupDevices', `
     SELECT d.* FROM devices d
     INNER JOIN device_groups dg ON d.id = dg.device_id
-    WHERE dg.group_id = ?
+    WHERE dg.group_id = ? AND dg.status = 'active'
   `);
   return stmt.all(groupId) as Device[];
 }
 
 /**
- * 检查设备是否在指定组中
+ * 检查设备是否为指定组的正式成员
  */
 export function isDeviceInGroup(deviceId: number, groupName: string): boolean {
   const stmt = getStmt('isDeviceInGroup', `
     SELECT 1 FROM device_groups dg
     INNER JOIN groups g ON g.id = dg.group_id
-    WHERE dg.device_id = ? AND g.name = ?
+    WHERE dg.device_id = ? AND g.name = ? AND dg.status = 'active'
   `);
   return stmt.get(deviceId, groupName) !== undefined;
 }
 
+/**
+ * 检查两个设备是否同为某个组的正式成员
+ */
+export function devicesShareGroup(deviceId: number, otherDeviceId: number): boolean {
+  const stmt = getStmt('devicesShareGroup', `
+    SELECT 1 FROM device_groups a
+    INNER JOIN device_groups b ON b.group_id = a.group_id
+    WHERE a.device_id = ? AND b.device_id = ? AND a.status = 'active' AND b.status = 'active'
+    LIMIT 1
+  `);
+  return stmt.get(deviceId, otherDeviceId) !== undefined;
+}
+
+/**
+ * 获取所有组及成员数量、待审批申请数量、所有者 uuid
+ */
+export function getAllGroups(): (Group & { member_count: number; pending_count: number; owner_uuid: string | null })[] {
+  const stmt = getStmt('getAllGroups', `
+    SELECT g.*,
+      COUNT(CASE WHEN dg.status = 'active' THEN 1 END) AS member_count,
+      COUNT(CASE WHEN dg.status = 'pending' THEN 1 END) AS pending_count,
+      o.uuid AS owner_uuid
+    FROM groups g
+    LEFT JOIN device_groups dg ON g.id = dg.group_id
+    LEFT JOIN devices o ON o.id = g.owner_device_id
+    GROUP BY g.id
+    ORDER BY g.name
+  `);
+  return stmt.all() as (Group & { member_count: number; pending_count: number; owner_uuid: string | null })[];
+}
+
+/**
+ * 获取组的待审批加入申请
+ */
+export function getGroupJoinRequests(groupId: number): (Device & { requested_at: string })[] {
+  const stmt = getStmt('getGroupJoinRequests', `
+    SELECT d.*, dg.created_at AS requested_at FROM devices d
+    INNER JOIN device_groups dg ON d.id = dg.device_id
+    WHERE dg.group_id = ? AND dg.status = 'pending'
+    ORDER BY dg.id
+  `);
+  return stmt.all(groupId) as (Device & { requested_at: string })[];
+}
+
+/**
+ * 批准加入申请
+ */
+export function approveGroupJoinRequest(deviceId: number, groupId: number): RunResult {
+  const stmt = getStmt('approveGroupJoinRequest', `
+    UPDATE device_groups SET status = 'active' WHERE device_id = ? AND group_id = ? AND status = 'pending'
+  `);
+  return stmt.run(deviceId, groupId);
+}
+
+/**
+ * 拒绝加入申请
+ */
+export function rejectGroupJoinRequest(deviceId: number, groupId: number): RunResult {
+  const stmt = getStmt('rejectGroupJoinRequest', `
+    DELETE FROM device_groups WHERE device_id = ? AND group_id = ? AND status = 'pending'
+  `);
+  return stmt.run(deviceId, groupId);
+}
+
+/**
+ * 创建组邀请码
+ */
+export function createGroupInvite(groupId: number, code: string, expiresAt: number): RunResult {
+  const stmt = getStmt('createGroupInvite', `
+    INSERT INTO group_invites (group_id, code, expires_at) VALUES (?, ?, ?)
+  `);
+  return stmt.run(groupId, code, expiresAt);
+}
+
+/**
+ * 获取组未过期的邀请码
+ */
+export function getGroupInvites(groupId: number, now: number = Date.now()): GroupInvite[] {
+  const stmt = getStmt('getGroupInvites', `
+    SELECT * FROM group_invites WHERE group_id = ? AND expires_at > ? ORDER BY expires_at
+  `);
+  return stmt.all(groupId, now) as GroupInvite[];
+}
+
+/**
+ * 检查邀请码对指定组是否有效（存在且未过期）
+ */
+export function isGroupInviteValid(groupId: number, code: string, now: number = Date.now()): boolean {
+  const stmt = getStmt('isGroupInviteValid', `
+    SELECT 1 FROM group_invites WHERE group_id = ? AND code = ? AND expires_at > ?
+  `);
+  return stmt.get(groupId, code, now) !== undefined;
+}
+
+/**
+ * 删除组邀请码
+ */
+export function deleteGroupInvite(groupId: number, code: string): RunResult {
+  const stmt = getStmt('deleteGroupInvite', `
+    DELETE FROM group_invites WHERE group_id = ? AND code = ?
+  `);
+  return stmt.run(groupId, code);
+}
+
+/**
+ * 清理过期的组邀请码
+ */
+export function cleanExpiredGroupInvites(now: number = Date.now()): RunResult {
+  const stmt = getStmt('cleanExpiredGroupInvites', `
+    DELETE FROM group_invites WHERE expires_at <= ?
+  `);
+  return stmt.run(now);
+}
+
+/**
+ * 将设备移出组
+ */
+export function removeDeviceFromGroup(deviceId: number, groupId: number): RunResult {
+  const stmt = getStmt('removeDeviceFromGroup', `
+    DELETE FROM device_groups WHERE device_id = ? AND group_id = ?
+  `);
+  return stmt.run(deviceId, groupId);
+}
+
+/**
+ * 删除组及其成员关系、邀请码，以及以该组为目标的定时任务
+ */
+export function deleteGroup(groupId: number): RunResult {
+  const deleteMembers = getStmt('deleteGroupMembers', `
+    DELETE FROM device_groups WHERE group_id = ?
+  `);
+  const deleteInvites = getStmt('deleteGroupInvites', `
+    DELETE FROM group_invites WHERE group_id = ?
+  `);
+  const deleteTasks = getStmt('deleteGroupScheduledTasks', `
+    DELETE FROM scheduled_tasks WHERE target_type = 'group' AND device_id = (SELECT name FROM groups WHERE id = ?)
+  `);
+  const deleteGroupStmt = getStmt('deleteGroup', `
+    DELETE FROM groups WHERE id = ?
+  `);
+
+  return getDb().transaction(() => {
+    deleteMembers.run(groupId);
+    deleteInvites.run(groupId);
+    deleteTasks.run(groupId);
+    return deleteGroupStmt.run(groupId);
+  })();
+}
+
 /**
  * 获取所有设备
  */
@@ -324,6 +683,84 @@ export function getAllDevices(): Device[] {
   return stmt.all([]) as Device[];
 }
 
+/**
+ * 停用或启用设备
+ */
+export function setDeviceDisabled(deviceId: number, disabled: boolean): RunResult {
+  const stmt = getStmt('setDeviceDisabled', `
+    UPDATE devices SET disabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `);
+  return stmt.run(disabled ? 1 : 0, deviceId);
+}
+
+/**
+ * 更换设备 authKey，同时清除已下发的连接凭证
+ */
+export function rotateDeviceAuthKey(deviceId: number, authKey: string): RunResult {
+  const stmt = getStmt('rotateDeviceAuthKey', `
+    UPDATE devices
+    SET auth_key = ?, client_id = NULL, username = NULL, password = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  return stmt.run(authKey, deviceId);
+}
+
+/**
+ * 删除设备及其所有关联数据：组成员关系、状态、配置、Bridge 共享、离线消息、时序数据、
+ * 设备创建的定时任务及执行记录，以及其他设备以该设备为目标的定时任务
+ * 设备所有的组如果没有其他成员则一并删除，否则只取消所有者
+ * @returns 一并删除的组名
+ */
+export function deleteDevice(deviceId: number, deviceUuid: string): string[] {
+  const database = getDb();
+  const getEmptyOwnedGroups = getStmt('getEmptyOwnedGroups', `
+    SELECT g.id, g.name FROM groups g
+    WHERE g.owner_device_id = ? AND NOT EXISTS (
+      SELECT 1 FROM device_groups dg WHERE dg.group_id = g.id AND dg.status = 'active' AND dg.device_id != ?
+    )
+  `);
+  const clearGroupOwner = getStmt('clearGroupOwner', `
+    UPDATE groups SET owner_device_id = NULL WHERE owner_device_id = ?
+  `);
+  const deleteStatements = [
+    'DELETE FROM device_groups WHERE device_id = ?',
+    'DELETE FROM device_status WHERE device_id = ?',
+    'DELETE FROM device_config WHERE device_id = ?',
+    'DELETE FROM bridge_shared_devices WHERE device_id = ?',
+    'DELETE FROM offline_messages WHERE device_id = ?',
+    'DELETE FROM scheduled_tasks WHERE owner_device_id = ?',
+    "DELETE FROM scheduled_tasks WHERE target_type = 'device' AND device_id = (SELECT client_id FROM devices WHERE id = ?)",
+    'DELETE FROM schedule_runs WHERE owner_device_id = ?'
+  ].map((sql, i) => getStmt(`deleteDeviceData${i}`, sql));
+  const deleteRollups = getStmt('deleteDeviceTimeseriesRollups', `
+    DELETE FROM timeseries_rollups WHERE device_uuid = ?
+  `);
+  const deleteDeviceStmt = getStmt('deleteDevice', `
+    DELETE FROM devices WHERE id = ?
+  `);
+
+  return database.transaction(() => {
+    const deletedGroups: string[] = [];
+    for (const { id, name } of getEmptyOwnedGroups.all(deviceId, deviceId) as Array<{ id: number; name: string }>) {
+      deleteGroup(id);
+      deletedGroups.push(name);
+    }
+    clearGroupOwner.run(deviceId);
+
+    for (const stmt of deleteStatements) {
+      stmt.run(deviceId);
+    }
+
+    for (const tableName of getAllTimeseriesTables()) {
+      database.prepare(`DELETE FROM ${tableName} WHERE device_uuid = ?`).run(deviceUuid);
+    }
+    deleteRollups.run(deviceUuid);
+
+    deleteDeviceStmt.run(deviceId);
+    return deletedGroups;
+  })();
+}
+
 /**
  * 更新设备在线状态
  * @param deviceId 设备ID
@@ -385,16 +822,26 @@ export function batchUpdateMqttDeviceStatus(clientIds: string[]): void {
 
 /**
  * 将HTTP设备标记为离线（超过10分钟无活动）
+ * @returns 本次被标记为离线的设备
  */
-export function markInactiveHttpDevicesOffline(): RunResult {
-  const stmt = getStmt('markInactiveHttpDevicesOffline', `
-    UPDATE device_status
-    SET status = 0, updated_at = CURRENT_TIMESTAMP
-    WHERE mode = 'http'
-      AND status = 1
-      AND datetime(last_active_at) < datetime('now', '-10 minutes')
+export function markInactiveHttpDevicesOffline(): Device[] {
+  const selectStmt = getStmt('selectInactiveHttpDevices', `
+    SELECT d.* FROM devices d
+    INNER JOIN device_status s ON s.device_id = d.id
+    WHERE s.mode = 'http'
+      AND s.status = 1
+      AND datetime(s.last_active_at) < datetime('now', '-10 minutes')
   `);
-  return stmt.run();
+
+  const markOffline = getDb().transaction((): Device[] => {
+    const devices = selectStmt.all() as Device[];
+    for (const device of devices) {
+      markDeviceOffline(device.id);
+    }
+    return devices;
+  });
+
+  return markOffline();
 }
 
 /**
@@ -469,17 +916,17 @@ export function getBridgeRemoteByBrokerId(brokerId: string): BridgeRemote | unde
 /**
  * 添加远程 Broker
  */
-export function addBridgeRemote(brokerId: string, url: string, token: string): RunResult {
+export function addBridgeRemote(brokerId: string, url: string, token: string, caCert: string | null = null): RunResult {
   const stmt = getStmt('addBridgeRemote', `
-    INSERT INTO bridge_remotes (broker_id, url, token) VALUES (?, ?, ?)
+    INSERT INTO bridge_remotes (broker_id, url, token, ca_cert) VALUES (?, ?, ?, ?)
   `);
-  return stmt.run(brokerId, url, token);
+  return stmt.run(brokerId, url, token, caCert);
 }
 
 /**
  * 更新远程 Broker
  */
-export function updateBridgeRemote(brokerId: string, updates: { url?: string; token?: string; enabled?: number }): RunResult {
+export function updateBridgeRemote(brokerId: string, updates: { url?: string; token?: string; ca_cert?: string | null; enabled?: number }): RunResult {
   const fields: string[] = [];
   const values: unknown[] = [];
 
@@ -491,6 +938,10 @@ export function updateBridgeRemote(brokerId: string, updates: { url?: string; to
     fields.push('token = ?');
     values.push(updates.token);
   }
+  if (updates.ca_cert !== undefined) {
+    fields.push('ca_cert = ?');
+    values.push(updates.ca_cert);
+  }
   if (updates.enabled !== undefined) {
     fields.push('enabled = ?');
     values.push(updates.enabled);
@@ -621,17 +1072,29 @@ export function getDeviceConfig(deviceId: number): DeviceConfig | undefined {
 }
 
 /**
- * 设置设备配置（不存在则创建，存在则更新）
+ * 保存设备影子（不存在则创建，存在则更新）
+ * @param desired desired 状态 JSON 字符串（即设备配置）
+ * @param reported reported 状态 JSON 字符串
+ * @param metadata 元数据 JSON 字符串
  */
-export function upsertDeviceConfig(deviceId: number, config: string): RunResult {
+export function upsertDeviceConfig(
+  deviceId: number,
+  desired: string,
+  reported: string,
+  metadata: string,
+  version: number
+): RunResult {
   const stmt = getStmt('upsertDeviceConfig', `
-    INSERT INTO device_config (device_id, config)
-    VALUES (?, ?)
+    INSERT INTO device_config (device_id, config, reported, metadata, version)
+    VALUES (?, ?, ?, ?, ?)
     ON CONFLICT(device_id) DO UPDATE SET
       config = excluded.config,
+      reported = excluded.reported,
+      metadata = excluded.metadata,
+      version = excluded.version,
       updated_at = CURRENT_TIMESTAMP
   `);
-  return stmt.run(deviceId, config);
+  return stmt.run(deviceId, desired, reported, metadata, version);
 }
 
 /**
@@ -644,6 +1107,375 @@ export function deleteDeviceConfig(deviceId: number): RunResult {
   return stmt.run(deviceId);
 }
 
+// ========== 定时任务 CRUD ==========
+
+/**
+ * 获取所有定时任务
+ */
+export function getAllScheduledTasks(): ScheduledTaskRecord[] {
+  const stmt = getStmt('getAllScheduledTasks', `
+    SELECT * FROM scheduled_tasks ORDER BY created_at ASC
+  `);
+  return stmt.all([]) as ScheduledTaskRecord[];
+}
+
+/**
+ * 获取所有定时任务及创建者、目标设备的 uuid（用户接口）
+ */
+export function getAllScheduledTasksWithDevices(): (ScheduledTaskRecord & { owner_uuid: string | null; target_uuid: string | null })[] {
+  const stmt = getStmt('getAllScheduledTasksWithDevices', `
+    SELECT t.*, o.uuid AS owner_uuid, d.uuid AS target_uuid
+    FROM scheduled_tasks t
+    LEFT JOIN devices o ON o.id = t.owner_device_id
+    LEFT JOIN devices d ON d.client_id = t.device_id AND t.target_type = 'device'
+    ORDER BY t.created_at ASC
+  `);
+  return stmt.all([]) as (ScheduledTaskRecord & { owner_uuid: string | null; target_uuid: string | null })[];
+}
+
+/**
+ * 保存定时任务（不存在则创建，存在则更新）
+ */
+export function upsertScheduledTask(task: ScheduledTask): RunResult {
+  const stmt = getStmt('upsertScheduledTask', `
+    INSERT INTO scheduled_tasks (id, owner_device_id, target_type, device_id, command, mode, execute_at, interval, cron, timezone, solar, created_at, last_executed_at, enabled, retry_window)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      device_id = excluded.device_id,
+      command = excluded.command,
+      mode = excluded.mode,
+      execute_at = excluded.execute_at,
+      interval = excluded.interval,
+      cron = excluded.cron,
+      timezone = excluded.timezone,
+      solar = excluded.solar,
+      last_executed_at = excluded.last_executed_at,
+      enabled = excluded.enabled,
+      retry_window = excluded.retry_window
+  `);
+  return stmt.run(
+    task.id,
+    task.ownerDeviceId,
+    task.targetType,
+    task.deviceId,
+    JSON.stringify(task.command),
+    task.mode,
+    task.executeAt,
+    task.interval ?? null,
+    task.cron ?? null,
+    task.timezone ?? null,
+    task.solar ? JSON.stringify(task.solar) : null,
+    task.createdAt,
+    task.lastExecutedAt ?? null,
+    task.enabled ? 1 : 0,
+    task.retryWindow ?? null
+  );
+}
+
+/**
+ * 删除定时任务
+ */
+export function deleteScheduledTask(taskId: string): RunResult {
+  const stmt = getStmt('deleteScheduledTask', `
+    DELETE FROM scheduled_tasks WHERE id = ?
+  `);
+  return stmt.run(taskId);
+}
+
+// ========== 定时任务执行记录 ==========
+
+/**
+ * 写入定时任务执行记录
+ */
+export function insertScheduleRun(run: Omit<ScheduleRunRecord, 'id'>): RunResult {
+  const stmt = getStmt('insertScheduleRun', `
+    INSERT INTO schedule_runs (task_id, owner_device_id, target_type, target, fired_at, executed_at, attempts, target_online, route, error)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  return stmt.run(
+    run.task_id,
+    run.owner_device_id,
+    run.target_type,
+    run.target,
+    run.fired_at,
+    run.executed_at,
+    run.attempts,
+    run.target_online,
+    run.route,
+    run.error
+  );
+}
+
+/**
+ * 获取设备创建的任务的执行记录（最新的在前）
+ */
+export function getScheduleRunsByOwner(taskId: string, ownerDeviceId: number, limit: number): ScheduleRunRecord[] {
+  const stmt = getStmt('getScheduleRunsByOwner', `
+    SELECT * FROM schedule_runs
+    WHERE task_id = ? AND owner_device_id = ?
+    ORDER BY id DESC
+    LIMIT ?
+  `);
+  return stmt.all(taskId, ownerDeviceId, limit) as ScheduleRunRecord[];
+}
+
+/**
+ * 获取最近的执行记录及创建者 uuid（用户接口，最新的在前）
+ * @param taskId 只查询指定任务，未指定时查询全部任务
+ */
+export function getRecentScheduleRuns(limit: number, taskId?: string): (ScheduleRunRecord & { owner_uuid: string | null })[] {
+  const where = taskId !== undefined ? 'WHERE r.task_id = ?' : '';
+  const stmt = getDb().prepare(`
+    SELECT r.*, o.uuid AS owner_uuid
+    FROM schedule_runs r
+    LEFT JOIN devices o ON o.id = r.owner_device_id
+    ${where}
+    ORDER BY r.id DESC
+    LIMIT ?
+  `);
+  const params = taskId !== undefined ? [taskId, limit] : [limit];
+  return stmt.all(...params) as (ScheduleRunRecord & { owner_uuid: string | null })[];
+}
+
+/**
+ * 清理过期的执行记录
+ * @param retentionDays 保留天数
+ */
+export function cleanExpiredScheduleRuns(retentionDays: number): RunResult {
+  const stmt = getStmt('cleanExpiredScheduleRuns', `
+    DELETE FROM schedule_runs WHERE fired_at < ?
+  `);
+  return stmt.run(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// ========== MQTT 设备离线消息队列 ==========
+
+/**
+ * 写入离线消息，超出最大深度时丢弃最早的消息
+ * @returns 因超出深度被丢弃的消息数
+ */
+export function enqueueOfflineMessage(deviceId: number, payload: string, qos: number, ttl: number, maxDepth: number): number {
+  const now = Date.now();
+  const insertStmt = getStmt('enqueueOfflineMessage', `
+    INSERT INTO offline_messages (device_id, payload, qos, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const trimStmt = getStmt('trimOfflineMessages', `
+    DELETE FROM offline_messages
+    WHERE device_id = ? AND id NOT IN (
+      SELECT id FROM offline_messages WHERE device_id = ? ORDER BY id DESC LIMIT ?
+    )
+  `);
+
+  const enqueue = getDb().transaction((): number => {
+    insertStmt.run(deviceId, payload, qos, now, now + ttl);
+    return trimStmt.run(deviceId, deviceId, maxDepth).changes;
+  });
+  return enqueue();
+}
+
+/**
+ * 获取设备未过期的离线消息（按入队顺序）
+ */
+export function getOfflineMessages(deviceId: number): OfflineMessageRecord[] {
+  const stmt = getStmt('getOfflineMessages', `
+    SELECT * FROM offline_messages
+    WHERE device_id = ? AND expires_at > ?
+    ORDER BY id ASC
+  `);
+  return stmt.all(deviceId, Date.now()) as OfflineMessageRecord[];
+}
+
+/**
+ * 统计设备未过期的离线消息数
+ */
+export function countOfflineMessages(deviceId: number): number {
+  const stmt = getStmt('countOfflineMessages', `
+    SELECT COUNT(*) as count FROM offline_messages WHERE device_id = ? AND expires_at > ?
+  `);
+  return (stmt.get(deviceId, Date.now()) as { count: number }).count;
+}
+
+/**
+ * 删除单条离线消息（投递成功后调用）
+ */
+export function deleteOfflineMessage(id: number): RunResult {
+  const stmt = getStmt('deleteOfflineMessage', `
+    DELETE FROM offline_messages WHERE id = ?
+  `);
+  return stmt.run(id);
+}
+
+/**
+ * 清空设备的离线消息
+ */
+export function clearOfflineMessages(deviceId: number): RunResult {
+  const stmt = getStmt('clearOfflineMessages', `
+    DELETE FROM offline_messages WHERE device_id = ?
+  `);
+  return stmt.run(deviceId);
+}
+
+/**
+ * 清理所有已过期的离线消息
+ */
+export function cleanExpiredOfflineMessages(): RunResult {
+  const stmt = getStmt('cleanExpiredOfflineMessages', `
+    DELETE FROM offline_messages WHERE expires_at <= ?
+  `);
+  return stmt.run(Date.now());
+}
+
+// ========== 发布限制配置 ==========
+
+/**
+ * 获取所有发布限制配置
+ */
+export function getAllLimitProfiles(): LimitProfile[] {
+  const stmt = getStmt('getAllLimitProfiles', `
+    SELECT * FROM limit_profiles ORDER BY created_at ASC
+  `);
+  return stmt.all([]) as LimitProfile[];
+}
+
+/**
+ * 通过名称获取发布限制配置
+ */
+export function getLimitProfileByName(name: string): LimitProfile | undefined {
+  const stmt = getStmt('getLimitProfileByName', `
+    SELECT * FROM limit_profiles WHERE name = ?
+  `);
+  return stmt.get(name) as LimitProfile | undefined;
+}
+
+/**
+ * 添加发布限制配置
+ */
+export function addLimitProfile(
+  name: string,
+  rate: number,
+  interval: number,
+  burst: number,
+  maxLength: number,
+  action: LimitAction
+): RunResult {
+  const stmt = getStmt('addLimitProfile', `
+    INSERT INTO limit_profiles (name, rate, interval, burst, max_length, action) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  return stmt.run(name, rate, interval, burst, maxLength, action);
+}
+
+/**
+ * 更新发布限制配置
+ */
+export function updateLimitProfile(
+  name: string,
+  updates: { rate?: number; interval?: number; burst?: number; max_length?: number; action?: LimitAction }
+): RunResult {
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  for (const [column, value] of Object.entries(updates)) {
+    if (value !== undefined) {
+      fields.push(`${column} = ?`);
+      values.push(value);
+    }
+  }
+
+  if (fields.length === 0) {
+    return { changes: 0 } as RunResult;
+  }
+
+  fields.push('updated_at = CURRENT_TIMESTAMP');
+  values.push(name);
+
+  const sql = `UPDATE limit_profiles SET ${fields.join(', ')} WHERE name = ?`;
+  return getDb().prepare(sql).run(...values);
+}
+
+/**
+ * 删除发布限制配置，同时解除其在设备和组上的分配
+ */
+export function deleteLimitProfile(profileId: number): void {
+  const database = getDb();
+  const unassignDevices = getStmt('unassignLimitProfileDevices', `
+    UPDATE devices SET limit_profile_id = NULL WHERE limit_profile_id = ?
+  `);
+  const unassignGroups = getStmt('unassignLimitProfileGroups', `
+    UPDATE groups SET limit_profile_id = NULL WHERE limit_profile_id = ?
+  `);
+  const remove = getStmt('deleteLimitProfile', `
+    DELETE FROM limit_profiles WHERE id = ?
+  `);
+
+  database.transaction(() => {
+    unassignDevices.run(profileId);
+    unassignGroups.run(profileId);
+    remove.run(profileId);
+  })();
+}
+
+/**
+ * 设置设备的发布限制配置（null 表示取消）
+ */
+export function setDeviceLimitProfile(deviceId: number, profileId: number | null): RunResult {
+  const stmt = getStmt('setDeviceLimitProfile', `
+    UPDATE devices SET limit_profile_id = ? WHERE id = ?
+  `);
+  return stmt.run(profileId, deviceId);
+}
+
+/**
+ * 设置组的发布限制配置（null 表示取消）
+ */
+export function setGroupLimitProfile(groupId: number, profileId: number | null): RunResult {
+  const stmt = getStmt('setGroupLimitProfile', `
+    UPDATE groups SET limit_profile_id = ? WHERE id = ?
+  `);
+  return stmt.run(profileId, groupId);
+}
+
+/**
+ * 获取分配了指定发布限制配置的设备和组
+ */
+export function getLimitProfileAssignments(profileId: number): { devices: Device[]; groups: Group[] } {
+  const devicesStmt = getStmt('getLimitProfileDevices', `
+    SELECT * FROM devices WHERE limit_profile_id = ?
+  `);
+  const groupsStmt = getStmt('getLimitProfileGroups', `
+    SELECT * FROM groups WHERE limit_profile_id = ?
+  `);
+  return {
+    devices: devicesStmt.all(profileId) as Device[],
+    groups: groupsStmt.all(profileId) as Group[]
+  };
+}
+
+/**
+ * 获取设备自身分配的发布限制配置
+ */
+export function getDeviceLimitProfile(deviceId: number): LimitProfile | undefined {
+  const stmt = getStmt('getDeviceLimitProfile', `
+    SELECT p.* FROM limit_profiles p
+    INNER JOIN devices d ON d.limit_profile_id = p.id
+    WHERE d.id = ?
+  `);
+  return stmt.get(deviceId) as LimitProfile | undefined;
+}
+
+/**
+ * 获取设备所在组分配的发布限制配置
+ */
+export function getDeviceGroupLimitProfiles(deviceId: number): LimitProfile[] {
+  const stmt = getStmt('getDeviceGroupLimitProfiles', `
+    SELECT DISTINCT p.* FROM limit_profiles p
+    INNER JOIN groups g ON g.limit_profile_id = p.id
+    INNER JOIN device_groups dg ON dg.group_id = g.id
+    WHERE dg.device_id = ? AND dg.status = 'active'
+  `);
+  return stmt.all(deviceId) as LimitProfile[];
+}
+
 // ========== 时序数据（按天分表） ==========
 
 /**
@@ -730,6 +1562,7 @@ function timeseriesTableExists(tableName: string): boolean {
 
 /**
  * 清理过期时序数据（按天删除整张表）
+ * 删除前先汇总尚未汇总的分表，长期趋势保留在 timeseries_rollups 中
  * @param retentionDays 保留天数
  * @returns 删除的表数量
  */
@@ -737,6 +1570,8 @@ export function cleanExpiredTimeseriesData(retentionDays: number): number {
   const cutoffTimestamp = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
   const cutoffTable = getTimeseriesTableName(cutoffTimestamp);
 
+  rollupCompletedTimeseriesTables();
+
   const tables = getAllTimeseriesTables();
   const database = getDb();
   let droppedCount = 0;
@@ -883,3 +1718,210 @@ export function queryTimeseriesData(
 
   return { data, total: total || 0, page, pageSize, totalPages: Math.ceil((total || 0) / pageSize) };
 }
+
+/**
+ * 按时间桶聚合指定分表中的时序数据
+ * 桶按 interval 对齐到 Unix 纪元（UTC），bucket 为桶起始时间戳
+ * first / last 利用 SQLite 在单个 MIN() / MAX() 聚合时取同一行其他列的特性，仅在需要时查询
+ */
+function aggregateTimeseriesTables(
+  tables: string[],
+  whereClause: string,
+  baseParams: unknown[],
+  interval: number,
+  options: { first?: boolean; last?: boolean }
+): TimeseriesBucketRow[] {
+  if (tables.length === 0) return [];
+
+  const source = tables
+    .map(t => `SELECT device_uuid, data_key, value, timestamp FROM ${t} WHERE ${whereClause}`)
+    .join(' UNION ALL ');
+  const sourceParams: unknown[] = [];
+  for (let i = 0; i < tables.length; i++) {
+    sourceParams.push(...baseParams);
+  }
+
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT device_uuid, data_key, timestamp - timestamp % ? AS bucket,
+      COUNT(*) AS count, SUM(value) AS sum, MIN(value) AS min, MAX(value) AS max
+    FROM (${source})
+    GROUP BY device_uuid, data_key, bucket
+    ORDER BY device_uuid ASC, data_key ASC, bucket ASC
+  `).all(interval, ...sourceParams) as TimeseriesBucketRow[];
+
+  const pick = (field: 'first' | 'last', aggregate: 'MIN' | 'MAX'): void => {
+    const values = database.prepare(`
+      SELECT device_uuid, data_key, timestamp - timestamp % ? AS bucket, value, ${aggregate}(timestamp) AS ts
+      FROM (${source})
+      GROUP BY device_uuid, data_key, bucket
+    `).all(interval, ...sourceParams) as Array<{ device_uuid: string; data_key: string; bucket: number; value: number; ts: number }>;
+
+    const byBucket = new Map(values.map(v => [`${v.device_uuid}\0${v.data_key}\0${v.bucket}`, v]));
+    for (const row of rows) {
+      const picked = byBucket.get(`${row.device_uuid}\0${row.data_key}\0${row.bucket}`);
+      if (field === 'first') {
+        row.first = picked?.value;
+        row.first_ts = picked?.ts;
+      } else {
+        row.last = picked?.value;
+        row.last_ts = picked?.ts;
+      }
+    }
+  };
+
+  if (options.first) pick('first', 'MIN');
+  if (options.last) pick('last', 'MAX');
+
+  return rows;
+}
+
+/**
+ * 按时间桶聚合设备时序数据（自动跨分表查询）
+ * @param options.excludeTables 不读取的分表（已汇总到 rollup 的分表）
+ * @returns 按 data_key、bucket 升序排列，不含空桶
+ */
+export function aggregateTimeseriesData(
+  deviceUuid: string,
+  startTime: number,
+  endTime: number,
+  interval: number,
+  options: { dataKey?: string; first?: boolean; last?: boolean; excludeTables?: Set<string> } = {}
+): TimeseriesBucketRow[] {
+  const tables = getTimeseriesTablesInRange(startTime, endTime)
+    .filter(t => !options.excludeTables?.has(t) && timeseriesTableExists(t));
+
+  const conditions: string[] = ['device_uuid = ?', 'timestamp >= ?', 'timestamp <= ?'];
+  const baseParams: unknown[] = [deviceUuid, startTime, endTime];
+  if (options.dataKey) {
+    conditions.push('data_key = ?');
+    baseParams.push(options.dataKey);
+  }
+
+  return aggregateTimeseriesTables(tables, conditions.join(' AND '), baseParams, interval, options);
+}
+
+// ========== 时序数据汇总（rollup） ==========
+
+/**
+ * 获取已汇总的时序数据分表名
+ */
+export function getRolledUpTimeseriesTables(): Set<string> {
+  const stmt = getStmt('getRolledUpTimeseriesTables', `
+    SELECT table_name FROM timeseries_rollup_tables
+  `);
+  return new Set((stmt.all([]) as Array<{ table_name: string }>).map(r => r.table_name));
+}
+
+/**
+ * 将一张时序数据分表按小时和天汇总到 timeseries_rollups
+ * 同一个桶可能跨两张分表（如按 UTC 对齐的天），与已有汇总合并；分表汇总后记录到 timeseries_rollup_tables，不会重复汇总
+ */
+export function rollupTimeseriesTable(tableName: string): void {
+  const database = getDb();
+  const upsert = getStmt('upsertTimeseriesRollup', `
+    INSERT INTO timeseries_rollups (resolution, device_uuid, data_key, bucket, count, sum, min, max, first, first_ts, last, last_ts)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(resolution, device_uuid, data_key, bucket) DO UPDATE SET
+      count = count + excluded.count,
+      sum = sum + excluded.sum,
+      min = MIN(min, excluded.min),
+      max = MAX(max, excluded.max),
+      first = CASE WHEN excluded.first_ts < first_ts THEN excluded.first ELSE first END,
+      first_ts = MIN(first_ts, excluded.first_ts),
+      last = CASE WHEN excluded.last_ts >= last_ts THEN excluded.last ELSE last END,
+      last_ts = MAX(last_ts, excluded.last_ts)
+  `);
+  const markRolledUp = getStmt('markTimeseriesTableRolledUp', `
+    INSERT OR IGNORE INTO timeseries_rollup_tables (table_name, rolled_up_at) VALUES (?, ?)
+  `);
+
+  database.transaction(() => {
+    for (const [resolution, interval] of Object.entries(TIMESERIES_ROLLUP_RESOLUTIONS)) {
+      const rows = aggregateTimeseriesTables([tableName], '1 = 1', [], interval, { first: true, last: true });
+      for (const row of rows) {
+        upsert.run(
+          resolution, row.device_uuid, row.data_key, row.bucket,
+          row.count, row.sum, row.min, row.max,
+          row.first, row.first_ts, row.last, row.last_ts
+        );
+      }
+    }
+    markRolledUp.run(tableName, Date.now());
+  })();
+}
+
+/**
+ * 汇总所有已结束（早于今天）且尚未汇总的时序数据分表
+ * @returns 本次汇总的分表数量
+ */
+export function rollupCompletedTimeseriesTables(): number {
+  const todayTable = getTimeseriesTableName(Date.now());
+  const rolledUp = getRolledUpTimeseriesTables();
+  const pending = getAllTimeseriesTables().filter(t => t < todayTable && !rolledUp.has(t));
+
+  for (const tableName of pending) {
+    rollupTimeseriesTable(tableName);
+  }
+  return pending.length;
+}
+
+/**
+ * 范围内是否有已汇总且已删除的分表（原始数据已过期清理，只能读取汇总）
+ * @param rolledUp 已汇总的分表名
+ */
+export function hasDroppedTimeseriesTables(startTime: number, endTime: number, rolledUp: Set<string>): boolean {
+  return getTimeseriesTablesInRange(startTime, endTime).some(t => rolledUp.has(t) && !timeseriesTableExists(t));
+}
+
+/**
+ * 查询设备的时序数据汇总
+ * @returns 完整落在 [startTime, endTime] 内的桶的汇总，按 data_key、bucket 升序排列
+ */
+export function queryTimeseriesRollups(
+  deviceUuid: string,
+  resolution: TimeseriesRollupResolution,
+  startTime: number,
+  endTime: number,
+  dataKey?: string
+): TimeseriesBucketRow[] {
+  const interval = TIMESERIES_ROLLUP_RESOLUTIONS[resolution];
+  const firstBucket = Math.ceil(startTime / interval) * interval;
+  const lastBucket = Math.floor((endTime + 1) / interval) * interval - interval;
+  if (lastBucket < firstBucket) {
+    return [];
+  }
+
+  if (dataKey) {
+    const stmt = getStmt('queryTimeseriesRollupsByKey', `
+      SELECT device_uuid, data_key, bucket, count, sum, min, max, first, first_ts, last, last_ts
+      FROM timeseries_rollups
+      WHERE resolution = ? AND device_uuid = ? AND data_key = ? AND bucket >= ? AND bucket <= ?
+      ORDER BY bucket ASC
+    `);
+    return stmt.all(resolution, deviceUuid, dataKey, firstBucket, lastBucket) as TimeseriesBucketRow[];
+  }
+
+  const stmt = getStmt('queryTimeseriesRollups', `
+    SELECT device_uuid, data_key, bucket, count, sum, min, max, first, first_ts, last, last_ts
+    FROM timeseries_rollups
+    WHERE resolution = ? AND device_uuid = ? AND bucket >= ? AND bucket <= ?
+    ORDER BY data_key ASC, bucket ASC
+  `);
+  return stmt.all(resolution, deviceUuid, firstBucket, lastBucket) as TimeseriesBucketRow[];
+}
+
+/**
+ * 清理过期的时序数据汇总
+ * @returns 删除的汇总行数
+ */
+export function cleanExpiredTimeseriesRollups(hourlyRetentionDays: number, dailyRetentionDays: number): number {
+  const stmt = getStmt('cleanExpiredTimeseriesRollups', `
+    DELETE FROM timeseries_rollups WHERE resolution = ? AND bucket < ?
+  `);
+  const now = Date.now();
+  const day = TIMESERIES_ROLLUP_RESOLUTIONS.day;
+
+  return stmt.run('hour', now - hourlyRetentionDays * day).changes
+    + stmt.run('day', now - dailyRetentionDays * day).changes;
+}
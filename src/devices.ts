@@ -0,0 +1,123 @@
+/**
+ * 设备管理模块
+ *
+ * 删除、停用设备和更换 authKey 后立即断开设备当前的 MQTT 连接并清除缓存：
+ *   - 删除: 设备及其组成员关系、状态、配置、Bridge 共享、离线消息、时序数据、创建的定时任务及执行记录一并删除，
+ *     其他设备以该设备为目标的定时任务同时取消；设备所有的空组一并删除，以组为目标的定时任务同时取消
+ *   - 停用: 设备不能获取连接凭证、不能通过 MQTT 认证，也不能调用设备 HTTP 接口
+ *   - 更换 authKey: 旧 authKey 和已下发的 MQTT 连接凭证同时失效，设备需用新 authKey 重新上线
+ */
+
+import { Device, IDeviceCache } from './types';
+import config from './config';
+import { logger } from './logger';
+import { router } from './router';
+import { bridge } from './bridge';
+import { limiter } from './limits';
+import { scheduler } from './scheduler';
+import {
+  deleteDevice,
+  setDeviceDisabled,
+  rotateDeviceAuthKey,
+  getSharedBrokerIdsForDevice,
+  markDeviceOffline
+} from './database';
+import { generateAuthKey } from './utils';
+
+/**
+ * 设备管理器
+ */
+class DeviceManager {
+  private deviceCache: IDeviceCache | null = null;
+
+  /**
+   * 初始化（Broker 进程中调用，用于断开在线设备）
+   */
+  init(deviceCache: IDeviceCache): void {
+    this.deviceCache = deviceCache;
+  }
+
+  /**
+   * 删除设备
+   * @returns 设备是否在线并被断开
+   */
+  delete(device: Device): boolean {
+    const sharedBrokerIds = getSharedBrokerIdsForDevice(device.id);
+    const disconnected = this.disconnect(device);
+
+    // 设备创建的定时任务和以该设备为目标的定时任务随设备一并删除（数据库记录在 deleteDevice 中删除）
+    scheduler.cancelTasksByOwner(device.id);
+    if (device.client_id) {
+      const cancelled = scheduler.cancelTasksByTarget('device', device.client_id);
+      if (cancelled > 0) {
+        logger.device(`设备 ${device.uuid} 已删除，取消了 ${cancelled} 个以其为目标的定时任务`);
+      }
+    }
+    const deletedGroups = deleteDevice(device.id, device.uuid);
+    logger.device(`设备 ${device.uuid} 已删除`);
+
+    // 一并删除的组，取消以其为目标的定时任务
+    for (const groupName of deletedGroups) {
+      scheduler.cancelTasksByTarget('group', groupName);
+    }
+
+    // 通知共享该设备的远程 Broker
+    if (config.bridge.enabled) {
+      for (const brokerId of sharedBrokerIds) {
+        bridge.syncSharedDevicesToBroker(brokerId);
+      }
+    }
+
+    return disconnected;
+  }
+
+  /**
+   * 停用或启用设备，停用时断开设备
+   * @returns 设备是否在线并被断开
+   */
+  setDisabled(device: Device, disabled: boolean): boolean {
+    setDeviceDisabled(device.id, disabled);
+    logger.device(`设备 ${device.uuid} 已${disabled ? '停用' : '启用'}`);
+    return disabled ? this.disconnect(device) : false;
+  }
+
+  /**
+   * 更换设备 authKey 并断开设备
+   * @returns 新的 authKey
+   */
+  rotateKey(device: Device): { authKey: string; disconnected: boolean } {
+    const authKey = generateAuthKey();
+    rotateDeviceAuthKey(device.id, authKey);
+    logger.device(`设备 ${device.uuid} 已更换 authKey`);
+    return { authKey, disconnected: this.disconnect(device) };
+  }
+
+  /**
+   * 断开设备当前连接并清除缓存
+   * MQTT 设备关闭连接（断开事件中更新离线状态后再清除缓存），HTTP 设备直接标记离线
+   * @returns 设备是否在线
+   */
+  private disconnect(device: Device): boolean {
+    const { client_id: clientId, auth_key: authKey } = device;
+    if (!this.deviceCache || !clientId) return false;
+
+    const client = this.deviceCache.getOnlineClient(clientId);
+    if (client) {
+      logger.device(`断开设备 ${device.uuid} 的 MQTT 连接: ${clientId}`);
+      client.close(() => this.deviceCache?.removeDevice(clientId, authKey));
+      return true;
+    }
+
+    const online = this.deviceCache.isHttpMode(clientId) && this.deviceCache.getDeviceByClientId(clientId) !== undefined;
+    if (online) {
+      markDeviceOffline(device.id);
+      limiter.clear(clientId);
+      router.publishPresence(clientId, device, false, 'http');
+    }
+    this.deviceCache.removeDevice(clientId, authKey);
+    return online;
+  }
+}
+
+// 导出单例
+export const deviceManager = new DeviceManager();
@@ -0,0 +1,69 @@
+/**
+ * 对外连接地址
+ *
+ * GET /device/auth 返回设备可用的全部 MQTT 接入方式（tcp / tls / ws），固件可按需选择。
+ *
+ * 主机名：
+ *   - 配置了 PUBLIC_HOST 时使用 PUBLIC_HOST
+ *   - 未配置 PUBLIC_HOST，或 PUBLIC_HOST_FROM_REQUEST=true 时，使用设备请求的 Host 头
+ *     （设备能通过该地址访问 HTTP 接口，通常也能通过它访问 MQTT）
+ *   - 都没有时使用 localhost
+ *
+ * 端口：PUBLIC_MQTT_PORT / PUBLIC_MQTTS_PORT / PUBLIC_WS_PORT，未配置时与监听端口相同；
+ * 监听端口为 0（未启用）的接入方式不返回
+ */
+
+import { MqttTransport, MqttTransportInfo } from './types';
+import config from './config';
+import { isTlsEnabled } from './tls';
+
+/** Host 头中的主机名：域名、IPv4 或方括号包裹的 IPv6 */
+const HOST_HEADER_REGEX = /^(\[[0-9a-fA-F:.]+\]|[A-Za-z0-9.-]+)(?::\d+)?$/;
+
+/**
+ * 从 Host 头解析主机名（去掉端口），格式不合法时返回 null
+ */
+function parseHostHeader(hostHeader: string | undefined): string | null {
+  if (!hostHeader) return null;
+  const match = HOST_HEADER_REGEX.exec(hostHeader.trim());
+  return match?.[1] ?? null;
+}
+
+/**
+ * 设备连接 Broker 使用的主机名
+ */
+export function resolvePublicHost(hostHeader: string | undefined): string {
+  const requestHost = parseHostHeader(hostHeader);
+  if (config.public.hostFromRequest && requestHost) {
+    return requestHost;
+  }
+  return config.public.host || requestHost || 'localhost';
+}
+
+/**
+ * 获取全部可用的 MQTT 接入地址
+ * @param hostHeader 设备请求的 Host 头
+ */
+export function getMqttTransports(hostHeader: string | undefined): Partial<Record<MqttTransport, MqttTransportInfo>> {
+  const host = resolvePublicHost(hostHeader);
+  const transports: Partial<Record<MqttTransport, MqttTransportInfo>> = {};
+
+  if (config.mqtt.port > 0) {
+    const port = config.public.mqttPort || config.mqtt.port;
+    transports.tcp = { url: `mqtt://${host}:${port}`, protocol: 'mqtt', host, port };
+  }
+
+  if (isTlsEnabled() && config.tls.mqttsPort > 0) {
+    const port = config.public.mqttsPort || config.tls.mqttsPort;
+    transports.tls = { url: `mqtts://${host}:${port}`, protocol: 'mqtts', host, port };
+  }
+
+  if (config.mqtt.wsPort > 0) {
+    const port = config.public.wsPort || config.mqtt.wsPort;
+    const protocol = config.tls.https && isTlsEnabled() ? 'wss' : 'ws';
+    const path = config.mqtt.wsPath;
+    transports.ws = { url: `${protocol}://${host}:${port}${path}`, protocol, host, port, path };
+  }
+
+  return transports;
+}
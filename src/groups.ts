@@ -0,0 +1,108 @@
+/**
+ * 组加入策略
+ *
+ * 每个组有一个加入方式（join_policy）：
+ *   - open: 设备可自由加入
+ *   - invite: 设备需提供有效的邀请码
+ *   - approval: 设备提交加入申请，管理员审批后成为成员；持有有效邀请码可直接加入
+ * 组所有者设备始终可以加入自己的组
+ *
+ * 设备注册时创建的默认组（以 uuid 为组名）归该设备所有，加入方式为 approval；
+ * 设备通过 POST /device/group 创建的新组归创建者所有，加入方式为 GROUP_JOIN_POLICY
+ */
+
+import { Device, GroupJoinPolicy } from './types';
+import config from './config';
+import { logger } from './logger';
+import {
+  createGroup,
+  getGroupByName,
+  addDeviceToGroup,
+  getGroupMembership,
+  isGroupInviteValid
+} from './database';
+import { generateRandomString } from './utils';
+
+const JOIN_POLICIES: ReadonlySet<string> = new Set<GroupJoinPolicy>(['open', 'invite', 'approval']);
+
+/**
+ * 设备加入组被拒绝时抛出
+ * code: 1001 参数错误，1006 无权加入该组
+ */
+export class GroupJoinError extends Error {
+  constructor(message: string, readonly code: 1001 | 1006) {
+    super(message);
+    this.name = 'GroupJoinError';
+  }
+}
+
+/**
+ * 校验组名：组名会出现在 /group/{groupName}/r 等 topic 中，
+ * 不能包含 topic 分隔符和通配符，也不能包含远程地址分隔符 ':'
+ */
+export function isValidGroupName(name: string): boolean {
+  return !/[/+#:]/.test(name);
+}
+
+/**
+ * 判断是否为合法的加入方式
+ */
+export function isValidJoinPolicy(policy: unknown): policy is GroupJoinPolicy {
+  return typeof policy === 'string' && JOIN_POLICIES.has(policy);
+}
+
+/**
+ * 生成邀请码
+ */
+export function generateInviteCode(): string {
+  return generateRandomString(12);
+}
+
+/**
+ * 设备申请加入组，组不存在时创建并由该设备所有
+ * @returns added: 已成为成员；pending: 已提交申请，等待审批
+ * @throws GroupJoinError 组名不合法、需要邀请码或邀请码无效
+ */
+export function joinGroup(device: Device, groupName: string, inviteCode?: string): 'added' | 'pending' {
+  if (!isValidGroupName(groupName)) {
+    throw new GroupJoinError('组名不能包含 / + # : 字符', 1001);
+  }
+
+  const group = getGroupByName(groupName);
+  if (!group) {
+    createGroup(groupName, device.id, config.groups.defaultJoinPolicy);
+    const created = getGroupByName(groupName);
+    if (!created) {
+      throw new Error('创建组失败');
+    }
+    addDeviceToGroup(device.id, created.id);
+    logger.group(`设备 ${device.uuid} 创建组 ${groupName}`);
+    return 'added';
+  }
+
+  if (getGroupMembership(device.id, group.id)?.status === 'active') {
+    return 'added';
+  }
+
+  let allowed = group.join_policy === 'open' || group.owner_device_id === device.id;
+  if (!allowed && inviteCode) {
+    if (!isGroupInviteValid(group.id, inviteCode)) {
+      throw new GroupJoinError('邀请码无效或已过期', 1006);
+    }
+    allowed = true;
+  }
+
+  if (allowed) {
+    addDeviceToGroup(device.id, group.id);
+    logger.group(`设备 ${device.uuid} 加入组 ${groupName}`);
+    return 'added';
+  }
+
+  if (group.join_policy === 'invite') {
+    throw new GroupJoinError('加入该组需要邀请码', 1006);
+  }
+
+  addDeviceToGroup(device.id, group.id, 'pending');
+  logger.group(`设备 ${device.uuid} 申请加入组 ${groupName}，等待审批`);
+  return 'pending';
+}
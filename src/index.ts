@@ -1,14 +1,38 @@
 import Aedes from 'aedes';
-import { createServer } from 'net';
-import Fastify from 'fastify';
-import { initDatabase, markInactiveHttpDevicesOffline, cleanExpiredTimeseriesData } from './database';
+import { createServer, Server as NetServer } from 'net';
+import { createServer as createTlsServer } from 'tls';
+import { createServer as createHttpServer, Server as HttpServer } from 'http';
+import { createServer as createHttpsServer } from 'https';
+import { WebSocketServer, createWebSocketStream } from 'ws';
+import Fastify, { FastifyInstance } from 'fastify';
+import {
+  initDatabase,
+  markInactiveHttpDevicesOffline,
+  cleanExpiredTimeseriesData,
+  cleanExpiredTimeseriesRollups,
+  rollupCompletedTimeseriesTables,
+  cleanExpiredOfflineMessages,
+  cleanExpiredGroupInvites,
+  cleanExpiredScheduleRuns
+} from './database';
 import { setupRoutes } from './routes';
+import { setupWebRoutes } from '../web/routes';
 import { setupBroker } from './broker';
 import { deviceCache } from './cache';
 import { scheduler } from './scheduler';
 import { bridge } from './bridge';
+import { router } from './router';
+import { limiter } from './limits';
+import { deviceManager } from './devices';
+import { brokerControl } from './control';
+import { getHttpsOptions, getMqttsServerOptions } from './tls';
 import config from './config';
 
+/**
+ * 单进程模式：Web 用户接口与 Broker 运行在同一进程中，直接共享设备缓存、调度器和 Bridge
+ */
+const singleProcess = process.argv.includes('--single-process');
+
 async function main(): Promise<void> {
   // 初始化数据库
   console.log('正在初始化数据库...');
@@ -21,6 +45,12 @@ async function main(): Promise<void> {
   // 设置Broker逻辑
   setupBroker(aedes, deviceCache);
 
+  // 初始化消息路由（MQTT、HTTP、Bridge、定时任务共用）
+  router.init(aedes, deviceCache);
+
+  // 初始化设备管理（删除、停用、更换 authKey 时断开在线设备）
+  deviceManager.init(deviceCache);
+
   // 初始化并启动定时任务调度器
   scheduler.init(aedes, deviceCache);
   scheduler.start();
@@ -33,16 +63,62 @@ async function main(): Promise<void> {
     console.log(`Bridge 已启动，brokerId: ${config.bridge.brokerId}`);
   }
 
-  // 创建MQTT服务器
-  const mqttServer = createServer(aedes.handle);
+  // 初始化控制通道，双进程模式下启动控制通道服务（Web 进程通过它同步实时状态）
+  brokerControl.init(deviceCache);
+  if (!singleProcess) {
+    try {
+      await brokerControl.start();
+    } catch (err) {
+      console.error(`控制通道启动失败（端口 ${config.control.port}）:`, err);
+    }
+  }
 
-  mqttServer.listen(config.mqtt.port, config.mqtt.host, () => {
-    console.log(`MQTT Broker 已启动，监听端口: ${config.mqtt.port}`);
-  });
+  // HTTPS 选项（设备 HTTP 接口、Web 用户接口、MQTT WebSocket 共用），未启用时为 null
+  const httpsOptions = getHttpsOptions();
 
-  // 创建Fastify HTTP服务器
+  // 创建MQTT服务器（MQTT_PORT=0 时不监听明文端口）
+  let mqttServer: NetServer | null = null;
+  if (config.mqtt.port > 0) {
+    mqttServer = createServer(aedes.handle);
+    mqttServer.listen(config.mqtt.port, config.mqtt.host, () => {
+      console.log(`MQTT Broker 已启动，监听端口: ${config.mqtt.port}`);
+    });
+  }
+
+  // 创建 MQTTS 服务器，与 TCP 共用同一个 Aedes 实例和认证规则
+  let mqttsServer: NetServer | null = null;
+  const mqttsOptions = getMqttsServerOptions();
+  if (mqttsOptions && config.tls.mqttsPort > 0) {
+    mqttsServer = createTlsServer(mqttsOptions, aedes.handle);
+    mqttsServer.listen(config.tls.mqttsPort, config.mqtt.host, () => {
+      console.log(`MQTTS Broker 已启动，监听端口: ${config.tls.mqttsPort}，客户端证书: ${config.tls.clientCert}`);
+    });
+  }
+  if (!mqttServer && !mqttsServer) {
+    console.warn('MQTT 和 MQTTS 端口均未启动，设备只能通过 WebSocket 或 HTTP 接入');
+  }
+
+  // 创建 MQTT over WebSocket 服务器（浏览器客户端），与 TCP 共用同一个 Aedes 实例和认证规则
+  let wsHttpServer: HttpServer | null = null;
+  let wsServer: WebSocketServer | null = null;
+  if (config.mqtt.wsPort > 0) {
+    wsHttpServer = httpsOptions ? createHttpsServer(httpsOptions) : createHttpServer();
+    wsServer = new WebSocketServer({ server: wsHttpServer, path: config.mqtt.wsPath });
+    wsServer.on('connection', (socket, request) => {
+      aedes.handle(createWebSocketStream(socket), request);
+    });
+    wsHttpServer.listen(config.mqtt.wsPort, config.mqtt.host, () => {
+      const protocol = httpsOptions ? 'wss' : 'ws';
+      console.log(`MQTT WebSocket (${protocol}) 已启动，监听端口: ${config.mqtt.wsPort}，路径: ${config.mqtt.wsPath}`);
+    });
+  }
+
+  // 创建Fastify HTTP服务器（HTTPS_ENABLED=true 时使用 HTTPS）
+  // 关闭时强制断开长轮询和 SSE 连接，避免等待其超时
   const fastify = Fastify({
-    logger: true
+    logger: true,
+    https: httpsOptions,
+    forceCloseConnections: true
   });
 
   // 设置HTTP路由
@@ -54,28 +130,99 @@ async function main(): Promise<void> {
       port: config.http.port,
       host: config.http.host
     });
-    console.log(`HTTP 服务已启动，监听端口: ${config.http.port}`);
+    console.log(`${httpsOptions ? 'HTTPS' : 'HTTP'} 服务已启动，监听端口: ${config.http.port}`);
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
   }
 
+  // 单进程模式下在第二个 Fastify 实例上挂载 Web 用户接口（独立端口）
+  let webServer: FastifyInstance | null = null;
+  if (singleProcess) {
+    webServer = Fastify({
+      logger: true,
+      https: httpsOptions
+    });
+    setupWebRoutes(webServer);
+
+    try {
+      await webServer.listen({
+        port: config.web.port,
+        host: config.web.host
+      });
+      console.log(`Web 用户接口服务已启动（单进程模式），监听端口: ${config.web.port}`);
+    } catch (err) {
+      webServer.log.error(err);
+      process.exit(1);
+    }
+  }
+
   // 定时检查HTTP设备离线状态（每10分钟）
   const httpStatusTimer = setInterval(() => {
-    const result = markInactiveHttpDevicesOffline();
-    if (result.changes > 0) {
-      console.log(`已将 ${result.changes} 个HTTP设备标记为离线`);
+    const devices = markInactiveHttpDevicesOffline();
+    if (devices.length > 0) {
+      console.log(`已将 ${devices.length} 个HTTP设备标记为离线`);
+    }
+    for (const device of devices) {
+      if (device.client_id) {
+        limiter.clear(device.client_id);
+        router.publishPresence(device.client_id, device, false, 'http');
+      }
     }
   }, 10 * 60 * 1000); // 每10分钟
 
-  // 定时清理过期时序数据（每天检查一次）
+  // 定时清理过期时序数据（每天检查一次，删除原始分表前先汇总）
   const timeseriesCleanupTimer = setInterval(() => {
     const droppedCount = cleanExpiredTimeseriesData(config.timeseries.retentionDays);
     if (droppedCount > 0) {
       console.log(`已清理 ${droppedCount} 张过期时序数据表（保留 ${config.timeseries.retentionDays} 天）`);
     }
+    const rollupCount = cleanExpiredTimeseriesRollups(
+      config.timeseries.rollupHourlyRetentionDays,
+      config.timeseries.rollupDailyRetentionDays
+    );
+    if (rollupCount > 0) {
+      console.log(`已清理 ${rollupCount} 条过期时序数据汇总`);
+    }
   }, 24 * 60 * 60 * 1000); // 每天
 
+  // 定时汇总已结束的时序数据分表（启动时执行一次，之后每小时）
+  const rollupTimeseries = (): void => {
+    const rolledUpCount = rollupCompletedTimeseriesTables();
+    if (rolledUpCount > 0) {
+      console.log(`已汇总 ${rolledUpCount} 张时序数据表`);
+    }
+  };
+  rollupTimeseries();
+  const timeseriesRollupTimer = setInterval(rollupTimeseries, 60 * 60 * 1000); // 每小时
+
+  // 定时清理过期的离线消息（每分钟）
+  const offlineQueueCleanupTimer = setInterval(() => {
+    const result = cleanExpiredOfflineMessages();
+    if (result.changes > 0) {
+      console.log(`已清理 ${result.changes} 条过期离线消息`);
+    }
+  }, 60 * 1000); // 每分钟
+
+  // 定时清理空闲的发布限制令牌桶（每30秒，覆盖已删除或未正常下线的设备）
+  const limiterEvictTimer = setInterval(() => limiter.evictIdle(), 30 * 1000); // 每30秒
+
+  // 定时清理过期的组邀请码（每小时）
+  const groupInviteCleanupTimer = setInterval(() => {
+    const result = cleanExpiredGroupInvites();
+    if (result.changes > 0) {
+      console.log(`已清理 ${result.changes} 个过期组邀请码`);
+    }
+  }, 60 * 60 * 1000); // 每小时
+
+  // 定时清理过期的定时任务执行记录（每小时）
+  const scheduleRunCleanupTimer = setInterval(() => {
+    const result = cleanExpiredScheduleRuns(config.scheduler.runRetentionDays);
+    if (result.changes > 0) {
+      console.log(`已清理 ${result.changes} 条过期定时任务执行记录`);
+    }
+  }, 60 * 60 * 1000); // 每小时
+
   // 优雅关闭
   process.on('SIGINT', () => {
     console.log('\n正在关闭服务...');
@@ -83,20 +230,42 @@ async function main(): Promise<void> {
     // 清除定时器
     clearInterval(httpStatusTimer);
     clearInterval(timeseriesCleanupTimer);
+    clearInterval(timeseriesRollupTimer);
+    clearInterval(offlineQueueCleanupTimer);
+    clearInterval(limiterEvictTimer);
+    clearInterval(groupInviteCleanupTimer);
+    clearInterval(scheduleRunCleanupTimer);
     
     // 停止调度器
     scheduler.stop();
     
     // 停止 Bridge
     bridge.stop();
+
+    // 停止控制通道
+    void brokerControl.stop();
+
+    // 关闭单进程模式下的 Web 用户接口
+    if (webServer) {
+      void webServer.close();
+    }
+
+    // 关闭 MQTT WebSocket 和 MQTTS 服务器
+    wsServer?.close();
+    wsHttpServer?.close();
+    mqttsServer?.close();
     
     aedes.close(() => {
-      mqttServer.close(() => {
-        console.log('MQTT Server 已关闭');
+      const closeHttp = (): void => {
         fastify.close(() => {
           console.log('HTTP Server 已关闭');
           process.exit(0);
         });
+      };
+      if (!mqttServer) return closeHttp();
+      mqttServer.close(() => {
+        console.log('MQTT Server 已关闭');
+        closeHttp();
       });
     });
   });
@@ -0,0 +1,251 @@
+/**
+ * 发布限制模块
+ *
+ * 发布限制配置（limit profile）可分配给设备或组，生效顺序：
+ *   1. 设备自身分配的配置
+ *   2. 设备所在组中最宽松的配置（平均速率最高）
+ *   3. 全局默认值：PUBLISH_RATE_LIMIT 毫秒 1 条，MESSAGE_MAX_LENGTH，超限断开连接
+ * 频率限制使用令牌桶：容量为 burst，每 interval 毫秒补充 rate 个令牌，每条消息消耗 1 个
+ *
+ * 生效的配置按 clientId 缓存，定期从数据库重新读取，修改配置后最迟 PROFILE_REFRESH_INTERVAL 生效
+ * 令牌桶在 MQTT 设备断开、HTTP 设备离线时清理，其余（如已删除的设备）空闲且令牌已补满后由 evictIdle 定期清理
+ */
+
+import { Client as AedesClient } from 'aedes';
+import {
+  EffectiveLimit,
+  LimitAction,
+  LimitCheckResult,
+  LimitProfile,
+  LimitProfileBody,
+  LimitRejectMessage
+} from './types';
+import config from './config';
+import { logger } from './logger';
+import { router } from './router';
+import { getDeviceLimitProfile, getDeviceGroupLimitProfiles } from './database';
+
+// 缓存的生效配置重新读取间隔（毫秒）
+const PROFILE_REFRESH_INTERVAL = 30 * 1000;
+
+const LIMIT_ACTIONS: ReadonlySet<string> = new Set<LimitAction>(['drop', 'reject', 'disconnect']);
+
+/**
+ * 单个客户端的令牌桶状态
+ */
+interface LimitState {
+  limit: EffectiveLimit;
+  tokens: number;
+  refilledAt: number;
+  resolvedAt: number;
+  usedAt: number;
+}
+
+/**
+ * 校验发布限制配置请求体
+ * @param partial 为 true 时（修改配置）字段均可省略
+ * @returns 错误信息，校验通过时返回 null
+ */
+export function validateLimitProfileBody(body: LimitProfileBody, partial: boolean): string | null {
+  const { rate, interval, burst, maxLength, action } = body;
+
+  if (!partial && (rate === undefined || interval === undefined || maxLength === undefined)) {
+    return 'rate、interval、maxLength 为必填参数';
+  }
+  for (const [field, value] of [['rate', rate], ['interval', interval], ['burst', burst], ['maxLength', maxLength]] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      return `${field} 必须为正整数`;
+    }
+  }
+  if (action !== undefined && !LIMIT_ACTIONS.has(action)) {
+    return 'action 只能为 drop、reject 或 disconnect';
+  }
+  return null;
+}
+
+/**
+ * 平均速率（条/毫秒），用于比较配置的宽松程度
+ */
+function averageRate(profile: LimitProfile): number {
+  return profile.rate / profile.interval;
+}
+
+/**
+ * 转换为生效的发布限制
+ */
+function toEffectiveLimit(profile: LimitProfile, source: 'device' | 'group'): EffectiveLimit {
+  return {
+    profile: profile.name,
+    source,
+    rate: profile.rate,
+    interval: profile.interval,
+    burst: profile.burst,
+    maxLength: profile.max_length,
+    action: profile.action
+  };
+}
+
+/**
+ * 发布限制器
+ */
+class PublishLimiter {
+  // 客户端令牌桶 clientId -> state
+  private states: Map<string, LimitState> = new Map();
+
+  /**
+   * 全局默认限制（未分配配置时使用）
+   */
+  getDefaultLimit(): EffectiveLimit {
+    return {
+      profile: null,
+      source: 'default',
+      rate: 1,
+      interval: config.message.publishRateLimit,
+      burst: 1,
+      maxLength: config.message.maxLength,
+      action: 'disconnect'
+    };
+  }
+
+  /**
+   * 从数据库解析设备生效的发布限制
+   */
+  resolve(deviceId: number): EffectiveLimit {
+    const own = getDeviceLimitProfile(deviceId);
+    if (own) {
+      return toEffectiveLimit(own, 'device');
+    }
+
+    let loosest: LimitProfile | undefined;
+    for (const profile of getDeviceGroupLimitProfiles(deviceId)) {
+      if (
+        !loosest ||
+        averageRate(profile) > averageRate(loosest) ||
+        (averageRate(profile) === averageRate(loosest) && profile.burst > loosest.burst)
+      ) {
+        loosest = profile;
+      }
+    }
+    return loosest ? toEffectiveLimit(loosest, 'group') : this.getDefaultLimit();
+  }
+
+  /**
+   * 检查一条消息是否超出限制，未超出时消耗一个令牌
+   * 超长消息不消耗令牌
+   */
+  check(clientId: string, deviceId: number, length: number): LimitCheckResult {
+    const now = Date.now();
+    const state = this.getState(clientId, deviceId, now);
+    const { limit } = state;
+
+    if (length > limit.maxLength) {
+      return { allowed: false, action: limit.action, code: 1004, detail: `消息长度不能大于${limit.maxLength}` };
+    }
+
+    // 周期为 0 表示不限制频率
+    if (limit.interval <= 0) {
+      return { allowed: true };
+    }
+
+    state.tokens = Math.min(limit.burst, state.tokens + (now - state.refilledAt) * limit.rate / limit.interval);
+    state.refilledAt = now;
+    if (state.tokens < 1) {
+      return { allowed: false, action: limit.action, code: 1005, detail: '发布频率过高，请稍后重试' };
+    }
+
+    state.tokens -= 1;
+    return { allowed: true };
+  }
+
+  /**
+   * 通知设备消息被拒绝（action 为 reject 时）
+   * 发送到 /device/{clientId}/r，直接写入客户端连接
+   */
+  notifyRejected(client: AedesClient, topic: string, payload: string, result: Extract<LimitCheckResult, { allowed: false }>): void {
+    const notice: LimitRejectMessage = {
+      type: 'limit',
+      message: result.code,
+      detail: result.detail,
+      topic,
+      ts: Date.now()
+    };
+
+    // 尽量带回原消息的 msgId，便于设备对应
+    try {
+      const { msgId } = JSON.parse(payload) as { msgId?: unknown };
+      if (typeof msgId === 'string') notice.msgId = msgId;
+    } catch {
+      // 非 JSON 消息没有 msgId
+    }
+
+    router.sendToClient(client, `/device/${client.id}/r`, JSON.stringify(notice), 0);
+  }
+
+  /**
+   * 使所有缓存的生效配置在下次检查时重新读取（配置或分配变化后调用）
+   */
+  invalidate(): void {
+    for (const state of this.states.values()) {
+      state.resolvedAt = 0;
+    }
+    logger.limit('发布限制配置已变更，将重新读取');
+  }
+
+  /**
+   * 客户端断开或下线时清理
+   */
+  clear(clientId: string): void {
+    this.states.delete(clientId);
+  }
+
+  /**
+   * 清理空闲超过 PROFILE_REFRESH_INTERVAL 且令牌已补满的令牌桶
+   * 令牌已满时删除不影响限流：下次发布时重新读取配置并以满桶开始
+   * @returns 清理的数量
+   */
+  evictIdle(): number {
+    const now = Date.now();
+    let evicted = 0;
+
+    for (const [clientId, state] of this.states) {
+      if (now - state.usedAt <= PROFILE_REFRESH_INTERVAL) continue;
+
+      const { limit } = state;
+      const full = limit.interval <= 0 ||
+        state.tokens + (now - state.refilledAt) * limit.rate / limit.interval >= limit.burst;
+      if (full) {
+        this.states.delete(clientId);
+        evicted++;
+      }
+    }
+
+    if (evicted > 0) {
+      logger.limit(`已清理 ${evicted} 个空闲的发布限制令牌桶`);
+    }
+    return evicted;
+  }
+
+  /**
+   * 获取客户端令牌桶，过期时重新读取生效配置并保留已有令牌
+   */
+  private getState(clientId: string, deviceId: number, now: number): LimitState {
+    let state = this.states.get(clientId);
+
+    if (!state) {
+      const limit = this.resolve(deviceId);
+      state = { limit, tokens: limit.burst, refilledAt: now, resolvedAt: now, usedAt: now };
+      this.states.set(clientId, state);
+      logger.limit(`设备 ${clientId} 发布限制: ${limit.profile ?? '默认'} (${limit.source})`);
+    } else if (now - state.resolvedAt > PROFILE_REFRESH_INTERVAL) {
+      state.limit = this.resolve(deviceId);
+      state.tokens = Math.min(state.tokens, state.limit.burst);
+      state.resolvedAt = now;
+    }
+    state.usedAt = now;
+
+    return state;
+  }
+}
+
+// 导出单例
+export const limiter = new PublishLimiter();
@@ -108,6 +108,10 @@ class Logger {
   http = this.createTaggedLogger('HTTP');
   scheduler = this.createTaggedLogger('SCHEDULER');
   bridge = this.createTaggedLogger('BRIDGE');
+  shadow = this.createTaggedLogger('SHADOW');
+  limit = this.createTaggedLogger('LIMIT');
+  device = this.createTaggedLogger('DEVICE');
+  control = this.createTaggedLogger('CONTROL');
 }
 
 // 导出单例
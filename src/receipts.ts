@@ -0,0 +1,162 @@
+/**
+ * 送达回执跟踪
+ *
+ * 设备发送带 msgId 的 QoS 1/2 消息时，目标设备确认收到（PUBACK / PUBCOMP）后，
+ * Broker 向原发送方发送送达回执。
+ *
+ * Aedes 只为持久会话（clean=false）保存已发出的 QoS 报文，ack 时才能带回原报文；
+ * 对 clean 会话，转发需要回执的 QoS>0 报文时由本模块分配 messageId 并记录，
+ * 收到 PUBACK / PUBCOMP 时按确认报文的 messageId 取出对应记录
+ * （QoS 1 和 QoS 2 的确认可能交错到达，不能按发送顺序对应）。
+ */
+
+import { Client as AedesClient, PublishPacket, Subscription } from 'aedes';
+import { ForwardMessage, InboxMessage } from './types';
+import { logger } from './logger';
+import { router } from './router';
+
+/**
+ * 待确认报文的回执信息
+ */
+interface PendingReceipt {
+  fromDevice: string;
+  msgId: string;
+}
+
+/**
+ * Aedes 未在类型中声明客户端的报文标识符计数器：
+ * 转发 QoS>0 报文时若报文没有 messageId，取 _nextId 并递增（1 ~ 65535 循环）
+ */
+interface MessageIdClient extends AedesClient {
+  _nextId: number;
+}
+
+/**
+ * 按 Aedes 的规则为客户端分配下一个 messageId，与 Aedes 自行分配的报文共用同一计数器
+ */
+function nextMessageId(client: AedesClient): number {
+  const idClient = client as MessageIdClient;
+  const messageId = idClient._nextId;
+  idClient._nextId = messageId >= 65535 ? 1 : messageId + 1;
+  return messageId;
+}
+
+/**
+ * 送达回执跟踪器
+ */
+class ReceiptTracker {
+  // clean 会话客户端已发出、待确认且需要回执的 QoS>0 报文 clientId -> (messageId -> 回执信息)
+  private inflight: Map<string, Map<number, PendingReceipt>> = new Map();
+
+  // 客户端订阅授予的 QoS clientId -> (topic -> qos)
+  private grantedQoS: Map<string, Map<string, number>> = new Map();
+
+  /**
+   * 记录客户端订阅授予的 QoS
+   */
+  trackSubscriptions(clientId: string, subscriptions: Subscription[]): void {
+    let topics = this.grantedQoS.get(clientId);
+    if (!topics) {
+      topics = new Map();
+      this.grantedQoS.set(clientId, topics);
+    }
+    for (const sub of subscriptions) {
+      topics.set(sub.topic, sub.qos);
+    }
+  }
+
+  /**
+   * 移除客户端取消的订阅
+   */
+  untrackSubscriptions(clientId: string, topics: string[]): void {
+    const granted = this.grantedQoS.get(clientId);
+    if (!granted) return;
+    for (const topic of topics) {
+      granted.delete(topic);
+    }
+  }
+
+  /**
+   * 报文转发给客户端前调用（aedes.authorizeForward）
+   * @returns 实际转发的报文：需要回执时为带 messageId 的副本（同一报文会转发给多个订阅者，不修改原报文）
+   */
+  trackForward<T extends PublishPacket>(client: AedesClient, packet: T): T {
+    if (!client.clean) return packet;
+
+    // 与 Aedes 一致：实际 QoS 不超过该 topic 订阅授予的 QoS
+    const granted = this.grantedQoS.get(client.id)?.get(packet.topic);
+    const qos = granted === undefined ? packet.qos : Math.min(packet.qos, granted);
+    if (qos === 0) return packet;
+
+    const pending = this.extractReceipt(client.id, packet);
+    if (!pending) return packet;
+
+    let inflight = this.inflight.get(client.id);
+    if (!inflight) {
+      inflight = new Map();
+      this.inflight.set(client.id, inflight);
+    }
+    const messageId = nextMessageId(client);
+    inflight.set(messageId, pending);
+    return { ...packet, messageId };
+  }
+
+  /**
+   * 客户端确认收到 QoS 报文（PUBACK / PUBCOMP）
+   * @param messageId 确认报文的 messageId
+   * @param packet 持久会话时为原报文，clean 会话时为空
+   */
+  handleAck(client: AedesClient, messageId: number | undefined, packet: PublishPacket | undefined): void {
+    let pending: PendingReceipt | null | undefined;
+    if (packet && packet.cmd === 'publish') {
+      pending = this.extractReceipt(client.id, packet);
+    } else if (messageId !== undefined) {
+      const inflight = this.inflight.get(client.id);
+      pending = inflight?.get(messageId);
+      inflight?.delete(messageId);
+    }
+
+    if (pending) {
+      router.sendReceipt(pending.fromDevice, client.id, pending.msgId);
+    }
+  }
+
+  /**
+   * HTTP 设备取走暂存消息时调用，视为已送达
+   */
+  handleHttpFetch(clientId: string, messages: InboxMessage[]): void {
+    for (const message of messages) {
+      if (message.type === 'presence' || message.type === 'shadowDelta') continue;
+      if (message.msgId && message.type !== 'receipt') {
+        router.sendReceipt(message.fromDevice, clientId, message.msgId);
+      }
+    }
+  }
+
+  /**
+   * 客户端断开时清理（未确认的报文不再回执）
+   */
+  clear(clientId: string): void {
+    this.inflight.delete(clientId);
+    this.grantedQoS.delete(clientId);
+  }
+
+  /**
+   * 从发往 /device/{clientId}/r 的报文中提取回执信息
+   */
+  private extractReceipt(clientId: string, packet: PublishPacket): PendingReceipt | null {
+    if (packet.topic !== `/device/${clientId}/r`) return null;
+
+    try {
+      const message = JSON.parse(packet.payload.toString()) as ForwardMessage;
+      if (!message.msgId || message.type === 'receipt' || !message.fromDevice) return null;
+      return { fromDevice: message.fromDevice, msgId: message.msgId };
+    } catch (error) {
+      logger.forward(`解析待确认报文失败: ${(error as Error).message}`);
+      return null;
+    }
+  }
+}
+
+// 导出单例
+export const receiptTracker = new ReceiptTracker();
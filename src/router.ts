@@ -0,0 +1,371 @@
+/**
+ * 消息路由模块
+ *
+ * 统一处理设备消息和组消息的投递，MQTT 发布、HTTP 接口、Bridge 入站和定时任务
+ * 都通过这里投递，保证无论发送方使用哪种传输方式，接收方的投递行为一致：
+ *   - 远程地址（brokerId:clientId / brokerId:groupName）: 通过 Bridge 转发
+ *   - 本地 HTTP 模式设备: 暂存到待取队列
+ *   - 本地 MQTT 设备: 发布到 /device/{clientId}/r 或 /group/{groupName}/r
+ *   - 离线 MQTT 设备: 写入 SQLite 离线队列，设备上线时补发
+ *
+ * 投递 QoS 沿用发送方的 QoS，MQTT 订阅者实际收到的 QoS 不超过其订阅时授予的 QoS
+ */
+
+import Aedes, { Client as AedesClient, PublishPacket, UnsubscribePacket } from 'aedes';
+import config from './config';
+import { DeliveryOptions, DeliveryRoute, Device, DeviceMode, ForwardMessage, IDeviceCache, PresenceMessage, QoS, ShadowDeltaMessage } from './types';
+import { logger } from './logger';
+import { stringifyForwardMessage, stringifyGroupForwardMessage, stringifyPresenceMessage } from './serializer';
+import { bridge, parseRemoteAddress } from './bridge';
+import { getDeviceByClientId, getDeviceGroups, enqueueOfflineMessage, getOfflineMessages, deleteOfflineMessage } from './database';
+
+/**
+ * 将任意值规范为合法的 QoS 等级，非法值按 0 处理
+ */
+export function normalizeQoS(qos: unknown): QoS {
+  return qos === 1 || qos === 2 ? qos : 0;
+}
+
+/**
+ * 消息路由器
+ */
+class MessageRouter {
+  private aedes: Aedes | null = null;
+  private deviceCache: IDeviceCache | null = null;
+
+  /**
+   * 初始化路由器
+   */
+  init(aedes: Aedes, deviceCache: IDeviceCache): void {
+    this.aedes = aedes;
+    this.deviceCache = deviceCache;
+  }
+
+  /**
+   * 路由设备发出的点对点消息（MQTT /device/{id}/s 和 HTTP POST /device/s 共用）
+   * 如果发送方设备被共享，同时推送数据到相关 Broker
+   */
+  routeDeviceMessage(fromClientId: string, toDevice: string, data: unknown, options: DeliveryOptions = {}): DeliveryRoute {
+    if (config.bridge.enabled) {
+      bridge.pushShareDataIfNeeded(fromClientId, data);
+    }
+    return this.sendToDevice(fromClientId, toDevice, data, options);
+  }
+
+  /**
+   * 发送消息到设备，toDevice 支持本地 clientId 和 brokerId:clientId 远程地址
+   */
+  sendToDevice(fromDevice: string, toDevice: string, data: unknown, options: DeliveryOptions = {}): DeliveryRoute {
+    const remoteAddr = parseRemoteAddress(toDevice);
+    if (remoteAddr) {
+      const sent = bridge.sendToRemoteDevice(remoteAddr.brokerId, fromDevice, remoteAddr.clientId, data, options);
+      if (!sent) {
+        logger.forward(`远程 Broker ${remoteAddr.brokerId} 不可用，消息丢弃`);
+        return 'unavailable';
+      }
+      return 'bridge';
+    }
+
+    const forwardMessage: ForwardMessage = {
+      fromDevice,
+      type: options.type,
+      msgId: options.msgId,
+      data
+    };
+    return this.deliverToLocalDevice(forwardMessage, toDevice, normalizeQoS(options.qos));
+  }
+
+  /**
+   * 向原发送方发送送达回执
+   * @param toDevice 原消息的发送方（本地 clientId 或 brokerId:clientId）
+   * @param fromDevice 确认收到消息的目标设备
+   */
+  sendReceipt(toDevice: string, fromDevice: string, msgId: string): DeliveryRoute {
+    logger.forward(`消息 ${msgId} 已送达 ${fromDevice}，回执发送给 ${toDevice}`);
+    return this.sendToDevice(fromDevice, toDevice, { status: 'delivered', ts: Date.now() }, {
+      type: 'receipt',
+      msgId,
+      qos: 1
+    });
+  }
+
+  /**
+   * 投递消息到本地设备
+   */
+  deliverToLocalDevice(forwardMessage: ForwardMessage, targetClientId: string, qos: QoS = 0): DeliveryRoute {
+    // HTTP 模式：暂存消息
+    if (this.deviceCache?.isHttpMode(targetClientId)) {
+      this.deviceCache.addPendingMessage(targetClientId, forwardMessage);
+      logger.forward(`消息已暂存给HTTP设备: ${targetClientId}`);
+      return 'http';
+    }
+
+    const payload = stringifyForwardMessage(forwardMessage);
+
+    // MQTT 设备离线：写入离线队列，上线后补发
+    if (config.offlineQueue.enabled && this.deviceCache && !this.deviceCache.isClientOnline(targetClientId)) {
+      const device = this.deviceCache.getDeviceByClientId(targetClientId) || getDeviceByClientId(targetClientId);
+      if (device) {
+        this.enqueueOffline(device, payload, qos);
+        return 'queued';
+      }
+    }
+
+    // MQTT 模式：发送到目标设备的接收 topic
+    const targetTopic = `/device/${targetClientId}/r`;
+    this.publish(targetTopic, payload, qos, (error) => {
+      if (error) {
+        logger.forward(`转发消息失败: ${error.message}`);
+      } else {
+        logger.forward(`消息已转发到 ${targetTopic} (QoS ${qos})`);
+      }
+    });
+    return 'mqtt';
+  }
+
+  /**
+   * 路由设备发出的组消息（MQTT /group/{name}/s 和 HTTP POST /device/s 共用）
+   * toGroup 支持本地组名和 brokerId:groupName 远程地址；
+   * 本地组消息同时广播到所有已连接的远程 Broker
+   * 调用方需先校验发送方是否在本地组中
+   */
+  routeGroupMessage(fromClientId: string, toGroup: string, data: unknown, qos: QoS = 0): DeliveryRoute {
+    const remoteAddr = parseRemoteAddress(toGroup);
+    if (remoteAddr) {
+      const sent = bridge.sendToRemoteGroup(remoteAddr.brokerId, fromClientId, remoteAddr.clientId, data, qos);
+      if (!sent) {
+        logger.group(`远程 Broker ${remoteAddr.brokerId} 不可用，组消息丢弃`);
+        return 'unavailable';
+      }
+      return 'bridge';
+    }
+
+    this.deliverToLocalGroup({ fromGroup: toGroup, fromDevice: fromClientId, data }, toGroup, qos, fromClientId);
+
+    if (config.bridge.enabled) {
+      bridge.broadcastToRemoteGroup(fromClientId, toGroup, data, qos);
+    }
+    return 'mqtt';
+  }
+
+  /**
+   * 投递组消息到本地组成员
+   * @param excludeClientId 不暂存消息的成员（通常为发送方自身）
+   */
+  deliverToLocalGroup(forwardMessage: ForwardMessage, targetGroup: string, qos: QoS = 0, excludeClientId?: string): void {
+    // 为组内 HTTP 模式设备暂存消息
+    if (this.deviceCache) {
+      for (const memberClientId of this.deviceCache.getGroupMembers(targetGroup)) {
+        if (memberClientId !== excludeClientId && this.deviceCache.isHttpMode(memberClientId)) {
+          this.deviceCache.addPendingMessage(memberClientId, forwardMessage);
+          logger.group(`组消息已暂存给HTTP设备: ${memberClientId}`);
+        }
+      }
+    }
+
+    // 发送到组的接收 topic（MQTT 设备会通过订阅收到）
+    const targetTopic = `/group/${targetGroup}/r`;
+    this.publish(targetTopic, stringifyGroupForwardMessage(forwardMessage), qos, (error) => {
+      if (error) {
+        logger.group(`组消息转发失败: ${error.message}`);
+      } else {
+        logger.group(`消息已转发到组 ${targetGroup} (QoS ${qos})`);
+      }
+    });
+  }
+
+  /**
+   * 向设备所在的每个组发布上下线事件
+   * MQTT 组成员通过 /group/{groupName}/r 收到，HTTP 组成员暂存待取
+   */
+  publishPresence(clientId: string, device: Device, online: boolean, mode: DeviceMode): void {
+    const ts = Date.now();
+
+    for (const group of getDeviceGroups(device.id)) {
+      const presence: PresenceMessage = {
+        type: 'presence',
+        fromGroup: group.name,
+        device: clientId,
+        online,
+        mode,
+        ts
+      };
+
+      if (this.deviceCache) {
+        for (const memberClientId of this.deviceCache.getGroupMembers(group.name)) {
+          if (memberClientId !== clientId && this.deviceCache.isHttpMode(memberClientId)) {
+            this.deviceCache.addPendingMessage(memberClientId, presence);
+          }
+        }
+      }
+
+      this.publish(`/group/${group.name}/r`, stringifyPresenceMessage(presence), 0, (error) => {
+        if (error) {
+          logger.group(`上下线事件发布失败: ${error.message}`);
+        } else {
+          logger.group(`设备 ${clientId} ${online ? '上线' : '下线'}，已通知组 ${group.name}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * 组成员关系变化后，从数据库重新读取设备所在的组并更新缓存
+   * 在线 MQTT 设备被移出的组，同时取消其对 /group/{groupName}/r 的订阅
+   */
+  refreshDeviceGroups(device: Device): void {
+    if (!this.deviceCache || !device.client_id) return;
+
+    const clientId = device.client_id;
+    const oldGroups = this.deviceCache.getDeviceGroups(clientId);
+    const groupNames = getDeviceGroups(device.id).map(g => g.name);
+    this.deviceCache.setDeviceGroups(clientId, groupNames);
+
+    const removed = oldGroups.filter(name => !groupNames.includes(name));
+    const client = this.deviceCache.getOnlineClient(clientId);
+    if (!client || removed.length === 0) return;
+
+    const topics = removed.map(name => `/group/${name}/r`);
+    client.unsubscribe({ cmd: 'unsubscribe', unsubscriptions: topics } as UnsubscribePacket, (error?: Error) => {
+      if (error) {
+        logger.group(`取消设备 ${clientId} 的组订阅失败: ${error.message}`);
+      } else {
+        logger.group(`设备 ${clientId} 已移出组，取消订阅: ${topics.join(', ')}`);
+      }
+    });
+  }
+
+  /**
+   * 补发离线队列中的消息（MQTT 设备上线时调用）
+   * 直接写入客户端连接，不依赖设备是否已完成订阅；投递成功的消息从队列中删除
+   */
+  flushOfflineMessages(client: AedesClient, device: Device): void {
+    if (!config.offlineQueue.enabled) return;
+
+    const messages = getOfflineMessages(device.id);
+    if (messages.length === 0) return;
+
+    logger.forward(`设备 ${client.id} 上线，补发 ${messages.length} 条离线消息`);
+
+    const targetTopic = `/device/${client.id}/r`;
+    for (const message of messages) {
+      this.sendToClient(client, targetTopic, message.payload, normalizeQoS(message.qos), (error) => {
+        if (error) {
+          logger.forward(`补发离线消息失败: ${error.message}`);
+          return;
+        }
+        deleteOfflineMessage(message.id);
+      });
+    }
+  }
+
+  /**
+   * 将离线队列中的消息转入暂存队列（HTTP 设备上线时调用）
+   * Broker 重启或设备缓存被删除后，HTTP 设备的连接模式不在缓存中，期间发给它的消息按离线 MQTT 设备写入了离线队列
+   */
+  moveOfflineMessagesToPending(clientId: string, device: Device): void {
+    if (!config.offlineQueue.enabled || !this.deviceCache) return;
+
+    const messages = getOfflineMessages(device.id);
+    if (messages.length === 0) return;
+
+    logger.forward(`HTTP 设备 ${clientId} 上线，转入 ${messages.length} 条离线消息`);
+
+    for (const message of messages) {
+      try {
+        this.deviceCache.addPendingMessage(clientId, JSON.parse(message.payload) as ForwardMessage);
+      } catch (error) {
+        logger.error(`离线消息 ${message.id} 解析失败，已丢弃: ${(error as Error).message}`);
+      }
+      deleteOfflineMessage(message.id);
+    }
+  }
+
+  /**
+   * 推送设备影子差异
+   * HTTP 模式设备暂存待取，在线 MQTT 设备发布到 /device/{clientId}/shadow/update/delta
+   * @returns 设备离线时返回 false，差异将在设备下次上线时推送
+   */
+  pushShadowDelta(clientId: string, delta: ShadowDeltaMessage): boolean {
+    if (!this.deviceCache) return false;
+
+    if (this.deviceCache.isHttpMode(clientId)) {
+      this.deviceCache.addPendingMessage(clientId, delta);
+      logger.shadow(`影子差异已暂存给HTTP设备: ${clientId}`);
+      return true;
+    }
+
+    if (!this.deviceCache.isClientOnline(clientId)) return false;
+
+    this.publishShadow(clientId, 'update/delta', JSON.stringify(delta));
+    return true;
+  }
+
+  /**
+   * 发布设备影子消息到 /device/{clientId}/shadow/{channel}
+   */
+  publishShadow(clientId: string, channel: string, payload: string): void {
+    const targetTopic = `/device/${clientId}/shadow/${channel}`;
+    this.publish(targetTopic, payload, 1, (error) => {
+      if (error) {
+        logger.shadow(`影子消息发布失败: ${error.message}`);
+      } else {
+        logger.shadow(`影子消息已发布到 ${targetTopic}`);
+      }
+    });
+  }
+
+  /**
+   * 直接写入客户端连接，不经过订阅匹配（设备上线时补发使用）
+   */
+  sendToClient(client: AedesClient, topic: string, payload: string, qos: QoS, callback?: (error?: Error) => void): void {
+    client.publish({
+      topic,
+      payload: Buffer.from(payload),
+      qos,
+      retain: false,
+      cmd: 'publish',
+      dup: false
+    } as PublishPacket, (error?: Error) => {
+      if (callback) callback(error);
+      else if (error) logger.forward(`写入客户端 ${client.id} 失败: ${error.message}`);
+    });
+  }
+
+  /**
+   * 写入离线队列
+   */
+  private enqueueOffline(device: Device, payload: string, qos: QoS): void {
+    try {
+      const dropped = enqueueOfflineMessage(device.id, payload, qos, config.offlineQueue.ttl, config.offlineQueue.maxDepth);
+      logger.forward(`设备 ${device.uuid} 不在线，消息已写入离线队列`);
+      if (dropped > 0) {
+        logger.forward(`设备 ${device.uuid} 离线队列已满，丢弃最早的 ${dropped} 条消息`);
+      }
+    } catch (error) {
+      logger.error(`写入离线队列失败: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * 在本地 Aedes 上发布消息
+   */
+  private publish(topic: string, payload: string, qos: QoS, callback: (error: Error | undefined) => void): void {
+    if (!this.aedes) {
+      callback(new Error('路由器未初始化'));
+      return;
+    }
+
+    this.aedes.publish({
+      topic,
+      payload: Buffer.from(payload),
+      qos,
+      retain: false,
+      cmd: 'publish',
+      dup: false
+    } as PublishPacket, callback);
+  }
+}
+
+// 导出单例
+export const router = new MessageRouter();
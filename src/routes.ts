@@ -12,7 +12,11 @@ import {
   addDeviceToGroup,
   getDeviceGroups,
   updateDeviceOnlineStatus,
-  updateDeviceLastActive
+  updateDeviceLastActive,
+  getDeviceByClientId,
+  devicesShareGroup,
+  isDeviceInGroup,
+  getScheduleRunsByOwner
 } from './database';
 import {
   IDeviceCache,
@@ -21,6 +25,11 @@ import {
   DeviceAuthQuery,
   DevicePublishBody,
   DeviceSubscribeQuery,
+  DeviceAckBody,
+  InboxMessage,
+  SequencedInboxMessage,
+  DeviceShadowQuery,
+  DeviceShadowBody,
   DeviceGroupBody,
   DeviceGroupsQuery,
   ApiResponse,
@@ -28,10 +37,129 @@ import {
   CancelScheduleBody,
   UpdateScheduleBody,
   QueryScheduleQuery,
-  ScheduleMode
+  QueryScheduleRunsQuery,
+  ScheduleParams,
+  ScheduleMode,
+  ScheduleTargetType,
+  ScheduledTask,
+  SolarSchedule,
+  SolarScheduleBody
 } from './types';
 import { logger } from './logger';
-import { scheduler } from './scheduler';
+import { scheduler, validateCronOptions, validateSolarOptions, checkRetryWindow, formatRetryWindow, resolveRunLimit, formatScheduleRun } from './scheduler';
+import { router, normalizeQoS } from './router';
+import { receiptTracker } from './receipts';
+import { shadow, ShadowUpdateError } from './shadow';
+import { parseRemoteAddress } from './bridge';
+import { getMqttTransports } from './endpoints';
+import { limiter } from './limits';
+import { joinGroup, GroupJoinError } from './groups';
+import { validateSolarSchedule } from './solar';
+
+/** 定时任务响应中默认返回的后续执行时间个数 */
+const DEFAULT_SCHEDULE_PREVIEW = 5;
+/** 定时任务响应中最多返回的后续执行时间个数 */
+const MAX_SCHEDULE_PREVIEW = 50;
+
+/**
+ * 解析 preview 参数，限制在 0 ~ MAX_SCHEDULE_PREVIEW 之间
+ */
+function resolvePreviewCount(preview: unknown): number {
+  const count = Number(preview ?? DEFAULT_SCHEDULE_PREVIEW);
+  if (!Number.isFinite(count) || count < 0) {
+    return DEFAULT_SCHEDULE_PREVIEW;
+  }
+  return Math.min(Math.floor(count), MAX_SCHEDULE_PREVIEW);
+}
+
+/**
+ * 校验 cron 表达式和时区
+ * @returns 错误信息，校验通过返回 null
+ */
+function checkCronParams(cron: unknown, timezone: unknown): string | null {
+  if (typeof cron !== 'string' || !cron.trim()) {
+    return 'cron模式需要cron参数（cron表达式）';
+  }
+  if (timezone !== undefined && typeof timezone !== 'string') {
+    return 'timezone必须是IANA时区名称，如 Asia/Shanghai';
+  }
+  try {
+    validateCronOptions(cron, timezone || config.scheduler.defaultTimezone);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * 校验太阳事件参数
+ * @returns 错误信息，校验通过返回 null
+ */
+function checkSolarParams(solar: unknown): string | null {
+  const error = validateSolarSchedule(solar);
+  if (error) {
+    return error;
+  }
+  try {
+    validateSolarOptions(toSolarSchedule(solar as SolarScheduleBody));
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * 整理太阳事件参数，只保留已知字段，offset 默认为 0
+ */
+function toSolarSchedule(solar: SolarScheduleBody): SolarSchedule {
+  return {
+    latitude: solar.latitude,
+    longitude: solar.longitude,
+    event: solar.event,
+    offset: solar.offset ?? 0
+  };
+}
+
+/**
+ * 定时任务目标的对外格式：设备任务返回 deviceId，组任务返回 toGroup
+ */
+function formatScheduleTarget(task: ScheduledTask): { targetType: ScheduleTargetType; deviceId: string | null; toGroup: string | null } {
+  return {
+    targetType: task.targetType,
+    deviceId: task.targetType === 'device' ? task.deviceId : null,
+    toGroup: task.targetType === 'group' ? task.deviceId : null
+  };
+}
+
+/**
+ * 解析长轮询 wait 参数（秒），超过 HTTP_LONG_POLL_MAX_WAIT 时按最大值处理
+ * @returns 等待毫秒数，参数不合法时返回 null
+ */
+function resolveLongPollWait(wait: unknown): number | null {
+  if (wait === undefined || wait === '') return 0;
+  const seconds = Number(wait);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    return null;
+  }
+  return Math.min(seconds, config.http.longPollMaxWait) * 1000;
+}
+
+/**
+ * 等待设备有新的暂存消息，收到消息、设备缓存被删除、超时或请求连接断开时返回
+ */
+function waitForPendingMessage(deviceCache: IDeviceCache, reply: FastifyReply, clientId: string, timeout: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      unsubscribe();
+      reply.raw.off('close', done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeout);
+    const unsubscribe = deviceCache.onPendingMessage(clientId, done);
+    reply.raw.on('close', done);
+  });
+}
 
 /**
  * 设置HTTP路由
@@ -53,6 +181,20 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
     });
   });
 
+  // 已停用的设备不能调用设备接口（authKey 来自查询参数或请求体）
+  fastify.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { authKey } = { ...(request.query as { authKey?: unknown }), ...(request.body as { authKey?: unknown }) };
+    if (typeof authKey !== 'string' || !authKey) return;
+
+    const device = deviceCache.getDeviceByAuthKey(authKey) || getDeviceByAuthKey(authKey);
+    if (device?.disabled) {
+      return reply.status(403).send({
+        message: 1010,
+        detail: '设备已停用'
+      });
+    }
+  });
+
   // 健康检查
   fastify.get('/health', async (_request: FastifyRequest, _reply: FastifyReply): Promise<ApiResponse> => {
     const stats = deviceCache.getStats();
@@ -83,6 +225,12 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
 
       // 检查设备是否已存在
       const existingDevice = getDeviceByUuid(uuid);
+      if (existingDevice?.disabled) {
+        return reply.status(403).send({
+          message: 1010,
+          detail: '设备已停用'
+        });
+      }
       if (existingDevice) {
         return {
           message: 1000,
@@ -98,12 +246,14 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
       // 创建设备记录
       createDevice(uuid, authKey);
 
-      // 创建默认用户组（以uuid为组名）
-      createGroup(uuid);
-      const group = getGroupByName(uuid);
+      // 创建默认用户组（以uuid为组名，归该设备所有，其他设备加入需要审批）
       const device = getDeviceByUuid(uuid);
-      if (group && device) {
-        addDeviceToGroup(device.id, group.id);
+      if (device) {
+        createGroup(uuid, device.id, 'approval');
+        const group = getGroupByName(uuid);
+        if (group) {
+          addDeviceToGroup(device.id, group.id);
+        }
       }
 
       return {
@@ -177,6 +327,9 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         // HTTP模式上线，更新数据库状态和活动时间
         updateDeviceOnlineStatus(device.id, true, 'http');
         deviceCache.setHttpDeviceLastActive(clientId);
+        router.moveOfflineMessagesToPending(clientId, deviceInfo);
+        router.publishPresence(clientId, deviceInfo, true, 'http');
+        shadow.pushDelta(deviceInfo);
         
         return {
           message: 1000,
@@ -190,12 +343,16 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
       }
 
       // MQTT模式上线，状态将在MQTT连接时更新
+      // host/port 为首选接入方式（tcp > tls > ws），transports 列出全部可用接入方式
+      const transports = getMqttTransports(request.headers.host);
+      const preferred = transports.tcp ?? transports.tls ?? transports.ws;
       return {
         message: 1000,
         detail: {
           mode: 'mqtt',
-          host: 'mqtt://localhost',
-          port: '1883',
+          host: preferred ? `${preferred.protocol}://${preferred.host}` : null,
+          port: preferred ? String(preferred.port) : null,
+          transports,
           clientId: clientId,
           username: username,
           password: password,
@@ -207,10 +364,10 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
   /**
    * HTTP发布接口（模拟MQTT发布）
    * POST /device/s
-   * Body: { authKey, toDevice, data } 或 { authKey, toGroup, data }
+   * Body: { authKey, toDevice, data, msgId?, qos? } 或 { authKey, toGroup, data, qos? }
    */
   fastify.post('/device/s', async (request: FastifyRequest<{ Body: DevicePublishBody }>, reply: FastifyReply): Promise<ApiResponse> => {
-      const { authKey, toDevice, toGroup, data } = request.body || {};
+      const { authKey, toDevice, toGroup, data, msgId, qos } = request.body || {};
 
       if (!authKey) {
         return reply.status(400).send({
@@ -233,6 +390,20 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
+      if (qos !== undefined && qos !== 0 && qos !== 1 && qos !== 2) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'qos只能为0、1或2'
+        });
+      }
+
+      if (msgId !== undefined && (typeof msgId !== 'string' || !msgId)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'msgId必须为非空字符串'
+        });
+      }
+
       // 验证设备
       let deviceInfo = deviceCache.getDeviceByAuthKey(authKey);
       if (!deviceInfo) {
@@ -261,67 +432,41 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         updateDeviceLastActive(deviceInfo.id);
       }
 
-      // 检查发布频率限制（限制机制3）
-      if (!deviceCache.checkPublishRate(clientId)) {
-        return reply.status(429).send({
-          message: 1005,
-          detail: '发布频率过高，请稍后重试'
-        });
-      }
-
-      // 检查消息长度限制（限制机制4）
+      // 检查消息长度和发布频率限制（限制机制3、4），按设备或组的限制配置处理
       const messageStr = typeof data === 'string' ? data : JSON.stringify(data);
-      if (messageStr.length > config.message.maxLength) {
-        return reply.status(400).send({
-          message: 1004,
-          detail: `消息长度不能大于${config.message.maxLength}`
+      const limit = limiter.check(clientId, deviceInfo.id, messageStr.length);
+      if (!limit.allowed) {
+        if (limit.action === 'drop') {
+          return {
+            message: 1000,
+            detail: {
+              status: 'dropped'
+            }
+          };
+        }
+        return reply.status(limit.code === 1004 ? 400 : 429).send({
+          message: limit.code,
+          detail: limit.detail
         });
       }
 
-      // 处理设备间消息
+      // 处理设备间消息（本地 MQTT / HTTP 设备或 brokerId:clientId 远程设备）
       if (toDevice) {
-        const targetDevice = deviceCache.getDeviceByClientId(toDevice);
-        if (targetDevice) {
-          // 构造转发消息
-          const forwardMessage = {
-            fromDevice: clientId,
-            data: data
-          };
-
-          // 检查目标设备是否为HTTP模式
-          if (deviceCache.isHttpMode(toDevice)) {
-            // HTTP模式：暂存消息
-            deviceCache.addPendingMessage(toDevice, forwardMessage);
-            logger.http(`消息已暂存给HTTP设备: ${toDevice}`);
-          }
-          // 如果是MQTT模式，消息会通过broker.ts的逻辑转发
-        }
+        router.routeDeviceMessage(clientId, toDevice, data, { qos: normalizeQoS(qos), msgId });
+        logger.http(`设备消息发送到: ${toDevice}`);
       }
 
       // 处理组消息
       if (toGroup) {
-        // 检查发送者是否在目标组中
-        if (!deviceCache.isDeviceInGroup(clientId, toGroup)) {
+        // 检查发送者是否在目标组中（brokerId:groupName 远程组由远程 Broker 处理）
+        if (!parseRemoteAddress(toGroup) && !deviceCache.isDeviceInGroup(clientId, toGroup)) {
           return reply.status(403).send({
             message: 1006,
             detail: '无权向该组发送消息'
           });
         }
 
-        // 构造转发消息
-        const forwardMessage = {
-          fromGroup: toGroup,
-          fromDevice: clientId,
-          data: data
-        };
-
-        // 使用反向索引获取组内所有HTTP模式的设备并暂存消息
-        const groupMembers = deviceCache.getGroupMembers(toGroup);
-        for (const memberId of groupMembers) {
-          if (memberId !== clientId && deviceCache.isHttpMode(memberId)) {
-            deviceCache.addPendingMessage(memberId, forwardMessage);
-          }
-        }
+        router.routeGroupMessage(clientId, toGroup, data, normalizeQoS(qos));
         logger.http(`组消息发送到: ${toGroup}`);
       }
 
@@ -335,11 +480,12 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
 
   /**
    * HTTP订阅接口 - 获取暂存的消息
-   * GET /device/r?authKey={authKey}
-   * 获取后清除暂存的消息
+   * GET /device/r?authKey={authKey}&wait={seconds}&cursor={seq}
+   * 获取后清除暂存的消息；指定 wait 时没有暂存消息则等待新消息（长轮询）
+   * 指定 cursor 时为确认模式：返回序号大于 cursor 的消息但不清除，设备处理后通过 POST /device/r/ack 确认
    */
   fastify.get('/device/r', async (request: FastifyRequest<{ Querystring: DeviceSubscribeQuery }>, reply: FastifyReply): Promise<ApiResponse> => {
-      const { authKey } = request.query;
+      const { authKey, wait, cursor } = request.query;
 
       if (!authKey) {
         return reply.status(400).send({
@@ -348,6 +494,22 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
+      const waitTime = resolveLongPollWait(wait);
+      if (waitTime === null) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'wait必须是不小于0的秒数'
+        });
+      }
+
+      const cursorSeq = cursor === undefined ? null : Number(cursor);
+      if (cursorSeq !== null && (!Number.isInteger(cursorSeq) || cursorSeq < 0)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'cursor必须是不小于0的整数'
+        });
+      }
+
       // 验证设备
       let deviceInfo = deviceCache.getDeviceByAuthKey(authKey);
       if (!deviceInfo) {
@@ -382,8 +544,41 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
       deviceCache.setHttpDeviceLastActive(clientId);
       updateDeviceLastActive(deviceInfo.id);
 
-      // 获取并清除暂存的消息
-      const messages = deviceCache.getPendingMessages(clientId);
+      // 获取并清除暂存的消息（确认模式下只读取，不清除）
+      const fetchMessages = (): InboxMessage[] => cursorSeq === null
+        ? deviceCache.getPendingMessages(clientId)
+        : deviceCache.peekPendingMessages(clientId, cursorSeq);
+      let messages = fetchMessages();
+
+      // 长轮询：等待新消息到达后再取
+      if (messages.length === 0 && waitTime > 0) {
+        await waitForPendingMessage(deviceCache, reply, clientId, waitTime);
+
+        // 等待期间设备断开了请求，消息留给下次获取
+        if (reply.raw.destroyed) {
+          return { message: 1000, detail: { messages: [], count: 0 } };
+        }
+
+        messages = fetchMessages();
+        deviceCache.setHttpDeviceLastActive(clientId);
+        updateDeviceLastActive(deviceInfo.id);
+      }
+
+      // 确认模式：消息在确认时才清除和回执，lastSeq 为本次返回的最后序号（没有消息时为 cursor）
+      if (cursorSeq !== null) {
+        const sequenced = messages as SequencedInboxMessage[];
+        return {
+          message: 1000,
+          detail: {
+            messages: sequenced,
+            count: sequenced.length,
+            lastSeq: sequenced.length > 0 ? sequenced[sequenced.length - 1]!.seq : cursorSeq
+          }
+        };
+      }
+
+      // 消息已被取走，向带 msgId 的消息发送方回执
+      receiptTracker.handleHttpFetch(clientId, messages);
 
       return {
         message: 1000,
@@ -394,13 +589,282 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
       };
   });
 
+  /**
+   * 确认已收到暂存消息（GET /device/r 确认模式）
+   * POST /device/r/ack
+   * Body: { authKey, seq }，清除序号不大于 seq 的消息并向带 msgId 的消息发送方回执
+   */
+  fastify.post('/device/r/ack', async (request: FastifyRequest<{ Body: DeviceAckBody }>, reply: FastifyReply): Promise<ApiResponse> => {
+      const { authKey, seq } = request.body || {};
+
+      if (!authKey) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'authKey为必填参数'
+        });
+      }
+
+      if (typeof seq !== 'number' || !Number.isInteger(seq) || seq < 0) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'seq必须是不小于0的整数'
+        });
+      }
+
+      // 验证设备
+      let deviceInfo = deviceCache.getDeviceByAuthKey(authKey);
+      if (!deviceInfo) {
+        const device = getDeviceByAuthKey(authKey);
+        if (!device) {
+          return reply.status(404).send({
+            message: 1003,
+            detail: '设备不存在'
+          });
+        }
+        deviceInfo = device;
+      }
+
+      const clientId = deviceInfo.client_id;
+
+      if (!clientId) {
+        return reply.status(400).send({
+          message: 1007,
+          detail: '设备未上线'
+        });
+      }
+
+      // 检查设备是否为HTTP模式
+      if (!deviceCache.isHttpMode(clientId)) {
+        return reply.status(400).send({
+          message: 1007,
+          detail: '该设备未以HTTP模式上线'
+        });
+      }
+
+      // HTTP设备有动作，更新活动时间
+      deviceCache.setHttpDeviceLastActive(clientId);
+      updateDeviceLastActive(deviceInfo.id);
+
+      // 清除已确认的消息，向带 msgId 的消息发送方回执
+      const acked = deviceCache.ackPendingMessages(clientId, seq);
+      receiptTracker.handleHttpFetch(clientId, acked);
+
+      return {
+        message: 1000,
+        detail: {
+          acked: acked.length
+        }
+      };
+  });
+
+  /**
+   * HTTP订阅接口 - Server-Sent Events 推送
+   * GET /device/stream?authKey={authKey}
+   * 连接建立后先推送已暂存的消息，之后每条新消息作为一个 message 事件推送；
+   * 定时发送心跳注释并刷新设备活动时间，设备重新上线、停用或删除后关闭连接
+   */
+  fastify.get('/device/stream', async (request: FastifyRequest<{ Querystring: DeviceSubscribeQuery }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+      const { authKey } = request.query;
+
+      if (!authKey) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'authKey为必填参数'
+        });
+      }
+
+      // 验证设备
+      let deviceInfo = deviceCache.getDeviceByAuthKey(authKey);
+      if (!deviceInfo) {
+        const device = getDeviceByAuthKey(authKey);
+        if (!device) {
+          return reply.status(404).send({
+            message: 1003,
+            detail: '设备不存在'
+          });
+        }
+        deviceInfo = device;
+      }
+
+      const deviceId = deviceInfo.id;
+      const clientId = deviceInfo.client_id;
+
+      if (!clientId) {
+        return reply.status(400).send({
+          message: 1007,
+          detail: '设备未上线'
+        });
+      }
+
+      // 检查设备是否为HTTP模式
+      if (!deviceCache.isHttpMode(clientId)) {
+        return reply.status(400).send({
+          message: 1007,
+          detail: '该设备未以HTTP模式上线'
+        });
+      }
+
+      // 接管响应，按 SSE 格式持续写入
+      reply.hijack();
+      const res = reply.raw;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+
+      const touch = (): void => {
+        deviceCache.setHttpDeviceLastActive(clientId);
+        updateDeviceLastActive(deviceId);
+      };
+
+      // 设备已重新上线（clientId 已变更）、停用或删除时连接失效
+      const isStale = (): boolean => {
+        const current = deviceCache.getDeviceByAuthKey(authKey);
+        return !deviceCache.isHttpMode(clientId) || (current !== undefined && current.client_id !== clientId);
+      };
+
+      // 推送暂存消息，连接失效时关闭
+      let flushScheduled = false;
+      const flush = (): void => {
+        flushScheduled = false;
+        if (res.destroyed) return;
+        if (isStale()) {
+          res.end();
+          return;
+        }
+
+        const messages = deviceCache.getPendingMessages(clientId);
+        if (messages.length === 0) return;
+        for (const message of messages) {
+          res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+        }
+        receiptTracker.handleHttpFetch(clientId, messages);
+      };
+
+      // 同一轮事件循环内到达的消息合并推送
+      const unsubscribe = deviceCache.onPendingMessage(clientId, () => {
+        if (flushScheduled) return;
+        flushScheduled = true;
+        setImmediate(flush);
+      });
+
+      const heartbeatTimer = setInterval(() => {
+        if (isStale()) {
+          res.end();
+          return;
+        }
+        res.write(': ping\n\n');
+        touch();
+      }, config.http.sseHeartbeat);
+
+      res.on('close', () => {
+        clearInterval(heartbeatTimer);
+        unsubscribe();
+      });
+
+      touch();
+      flush();
+      return undefined;
+  });
+
+  /**
+   * 获取设备影子
+   * GET /device/shadow?authKey={authKey}
+   */
+  fastify.get('/device/shadow', async (request: FastifyRequest<{ Querystring: DeviceShadowQuery }>, reply: FastifyReply): Promise<ApiResponse> => {
+      const { authKey } = request.query;
+
+      if (!authKey) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'authKey为必填参数'
+        });
+      }
+
+      // 验证设备
+      const deviceInfo = deviceCache.getDeviceByAuthKey(authKey) || getDeviceByAuthKey(authKey);
+      if (!deviceInfo) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      // HTTP设备有动作，更新活动时间
+      if (deviceInfo.client_id && deviceCache.isHttpMode(deviceInfo.client_id)) {
+        deviceCache.setHttpDeviceLastActive(deviceInfo.client_id);
+        updateDeviceLastActive(deviceInfo.id);
+      }
+
+      return {
+        message: 1000,
+        detail: shadow.getShadow(deviceInfo)
+      };
+  });
+
+  /**
+   * 更新设备影子（通常用于上报 reported 状态）
+   * POST /device/shadow
+   * Body: { authKey, state: { reported?, desired? }, version?, clientToken? }
+   */
+  fastify.post('/device/shadow', async (request: FastifyRequest<{ Body: DeviceShadowBody }>, reply: FastifyReply): Promise<ApiResponse> => {
+      const { authKey, ...update } = request.body || {};
+
+      if (!authKey) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'authKey为必填参数'
+        });
+      }
+
+      // 验证设备
+      const deviceInfo = deviceCache.getDeviceByAuthKey(authKey) || getDeviceByAuthKey(authKey);
+      if (!deviceInfo) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      // 检查消息长度限制（限制机制4）
+      if (JSON.stringify(update).length > config.message.maxLength) {
+        return reply.status(400).send({
+          message: 1004,
+          detail: `消息长度不能大于${config.message.maxLength}`
+        });
+      }
+
+      // HTTP设备有动作，更新活动时间
+      if (deviceInfo.client_id && deviceCache.isHttpMode(deviceInfo.client_id)) {
+        deviceCache.setHttpDeviceLastActive(deviceInfo.client_id);
+        updateDeviceLastActive(deviceInfo.id);
+      }
+
+      try {
+        const { document } = shadow.update(deviceInfo, update);
+        return {
+          message: 1000,
+          detail: document
+        };
+      } catch (error) {
+        if (!(error instanceof ShadowUpdateError)) throw error;
+        return reply.status(error.code === 1009 ? 409 : 400).send({
+          message: error.code,
+          detail: error.message
+        });
+      }
+  });
+
   /**
    * 将设备添加到组
    * POST /device/group
-   * Body: { authKey, groupName }
+   * Body: { authKey, groupName, inviteCode? }
+   * 按组的加入方式处理：open 直接加入，invite 需要邀请码，approval 提交申请等待审批
    */
   fastify.post('/device/group', async (request: FastifyRequest<{ Body: DeviceGroupBody }>, reply: FastifyReply): Promise<ApiResponse> => {
-      const { authKey, groupName } = request.body || {};
+      const { authKey, groupName, inviteCode } = request.body || {};
 
       if (!authKey || !groupName) {
         return reply.status(400).send({
@@ -417,31 +881,27 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
-      // 创建组（如果不存在）
-      createGroup(groupName);
-      const group = getGroupByName(groupName);
-
-      if (!group) {
-        return reply.status(500).send({
-          message: 1002,
-          detail: '创建组失败'
+      // 加入组（组不存在时创建，由该设备所有）
+      let status: 'added' | 'pending';
+      try {
+        status = joinGroup(device, groupName, inviteCode);
+      } catch (error) {
+        if (!(error instanceof GroupJoinError)) throw error;
+        return reply.status(error.code === 1006 ? 403 : 400).send({
+          message: error.code,
+          detail: error.message
         });
       }
 
-      // 将设备添加到组
-      addDeviceToGroup(device.id, group.id);
-
       // 更新缓存
-      if (device.client_id) {
-        const groups = getDeviceGroups(device.id);
-        const groupNames = groups.map(g => g.name);
-        deviceCache.setDeviceGroups(device.client_id, groupNames);
+      if (status === 'added') {
+        router.refreshDeviceGroups(device);
       }
 
       return {
         message: 1000,
         detail: {
-          status: 'added',
+          status,
           groupName: groupName
         }
       };
@@ -482,10 +942,10 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
   /**
    * 创建定时任务
    * POST /schedule
-   * Body: { authKey, toDevice, command, mode, executeAt?, countdown?, interval? }
+   * Body: { authKey, toDevice | toGroup, command, mode, executeAt?, countdown?, interval?, cron?, timezone?, solar?, retryWindow?, preview? }
    */
   fastify.post('/schedule', async (request: FastifyRequest<{ Body: CreateScheduleBody }>, reply: FastifyReply): Promise<ApiResponse> => {
-      const { authKey, toDevice, command, mode, executeAt, countdown, interval } = request.body || {};
+      const { authKey, toDevice, toGroup, command, mode, executeAt, countdown, interval, cron, timezone, solar, retryWindow, preview } = request.body || {};
 
       // 参数校验
       if (!authKey) {
@@ -495,10 +955,10 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
-      if (!toDevice) {
+      if (!toDevice === !toGroup) {
         return reply.status(400).send({
           message: 1001,
-          detail: 'toDevice为必填参数'
+          detail: 'toDevice和toGroup必须且只能指定一个'
         });
       }
 
@@ -509,10 +969,25 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
-      if (!mode || !['scheduled', 'countdown', 'recurring'].includes(mode)) {
+      if (!mode || !['scheduled', 'countdown', 'recurring', 'cron', 'solar'].includes(mode)) {
         return reply.status(400).send({
           message: 1001,
-          detail: 'mode必须是 scheduled、countdown 或 recurring'
+          detail: 'mode必须是 scheduled、countdown、recurring、cron 或 solar'
+        });
+      }
+
+      const retryWindowError = checkRetryWindow(retryWindow);
+      if (retryWindowError) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: retryWindowError
+        });
+      }
+
+      if (toGroup && retryWindow) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'retryWindow仅适用于设备任务'
         });
       }
 
@@ -525,6 +1000,31 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
+      // 只能为自己所在的组创建组任务；远程组由远程 Broker 处理
+      if (toGroup && !parseRemoteAddress(toGroup) && !isDeviceInGroup(device.id, toGroup)) {
+        return reply.status(403).send({
+          message: 1006,
+          detail: '无权向该组发送消息'
+        });
+      }
+
+      // 只能为自己或同组设备创建任务；远程设备是否可访问由远程 Broker 的共享设置决定
+      if (toDevice && !parseRemoteAddress(toDevice) && toDevice !== device.client_id) {
+        const target = getDeviceByClientId(toDevice);
+        if (!target) {
+          return reply.status(404).send({
+            message: 1003,
+            detail: '目标设备不存在'
+          });
+        }
+        if (!devicesShareGroup(device.id, target.id)) {
+          return reply.status(403).send({
+            message: 1011,
+            detail: '只能为自己或同组设备创建定时任务'
+          });
+        }
+      }
+
       // 根据模式校验参数
       if (mode === 'scheduled' && !executeAt) {
         return reply.status(400).send({
@@ -547,21 +1047,50 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
+      if (mode === 'cron') {
+        const cronError = checkCronParams(cron, timezone);
+        if (cronError) {
+          return reply.status(400).send({
+            message: 1001,
+            detail: cronError
+          });
+        }
+      }
+
+      if (mode === 'solar') {
+        const solarError = checkSolarParams(solar);
+        if (solarError) {
+          return reply.status(400).send({
+            message: 1001,
+            detail: solarError
+          });
+        }
+      }
+
       // 创建定时任务
-      const task = scheduler.createTask(toDevice, command, mode as ScheduleMode, {
+      const task = scheduler.createTask(device.id, toGroup ? 'group' : 'device', (toGroup || toDevice) as string, command, mode as ScheduleMode, {
         executeAt,
         countdown,
-        interval
+        interval,
+        cron,
+        timezone,
+        solar: mode === 'solar' && solar ? toSolarSchedule(solar) : undefined,
+        retryWindow
       });
 
       return {
         message: 1000,
         detail: {
           taskId: task.id,
-          deviceId: task.deviceId,
+          ...formatScheduleTarget(task),
           mode: task.mode,
           executeAt: task.executeAt,
           interval: task.interval,
+          cron: task.cron,
+          timezone: task.timezone,
+          solar: task.solar,
+          retryWindow: formatRetryWindow(task.retryWindow),
+          nextRuns: scheduler.getNextRuns(task, resolvePreviewCount(preview)),
           createdAt: task.createdAt
         }
       };
@@ -598,15 +1127,17 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
-      // 取消任务
-      const success = scheduler.cancelTask(taskId);
-      if (!success) {
+      // 只能取消自己创建的任务
+      const task = scheduler.getTask(taskId);
+      if (!task || task.ownerDeviceId !== device.id) {
         return reply.status(404).send({
           message: 1008,
           detail: '任务不存在'
         });
       }
 
+      scheduler.cancelTask(taskId);
+
       return {
         message: 1000,
         detail: {
@@ -619,7 +1150,7 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
   /**
    * 查询定时任务
    * GET /schedule?authKey={authKey}
-   * 返回与该设备相关的所有定时任务
+   * 返回该设备创建的所有定时任务
    */
   fastify.get('/schedule', async (request: FastifyRequest<{ Querystring: QueryScheduleQuery }>, reply: FastifyReply): Promise<ApiResponse> => {
       const { authKey } = request.query;
@@ -640,12 +1171,7 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
-      const clientId = deviceInfo.client_id;
-
-      // 获取所有任务（按设备筛选或获取全部）
-      const tasks = clientId 
-        ? scheduler.getTasksByDevice(clientId)
-        : [];
+      const tasks = scheduler.getTasksByOwner(deviceInfo.id);
 
       // 获取调度器统计信息
       const stats = scheduler.getStats();
@@ -655,11 +1181,15 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         detail: {
           tasks: tasks.map(t => ({
             taskId: t.id,
-            deviceId: t.deviceId,
+            ...formatScheduleTarget(t),
             command: t.command,
             mode: t.mode,
             executeAt: t.executeAt,
             interval: t.interval,
+            cron: t.cron,
+            timezone: t.timezone,
+            solar: t.solar,
+            retryWindow: formatRetryWindow(t.retryWindow),
             createdAt: t.createdAt,
             lastExecutedAt: t.lastExecutedAt,
             enabled: t.enabled
@@ -670,13 +1200,57 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
       };
   });
 
+  /**
+   * 查询定时任务执行记录
+   * GET /schedule/:taskId/runs?authKey={authKey}&limit={limit}
+   * 只能查询自己创建的任务，一次性任务执行后仍可查询
+   */
+  fastify.get('/schedule/:taskId/runs', async (request: FastifyRequest<{ Params: ScheduleParams; Querystring: QueryScheduleRunsQuery }>, reply: FastifyReply): Promise<ApiResponse> => {
+      const { taskId } = request.params;
+      const { authKey, limit } = request.query;
+
+      if (!authKey) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'authKey为必填参数'
+        });
+      }
+
+      // 验证设备
+      const deviceInfo = deviceCache.getDeviceByAuthKey(authKey) || getDeviceByAuthKey(authKey);
+      if (!deviceInfo) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const task = scheduler.getTask(taskId);
+      const runs = getScheduleRunsByOwner(taskId, deviceInfo.id, resolveRunLimit(limit));
+      if ((!task || task.ownerDeviceId !== deviceInfo.id) && runs.length === 0) {
+        return reply.status(404).send({
+          message: 1008,
+          detail: '任务不存在'
+        });
+      }
+
+      return {
+        message: 1000,
+        detail: {
+          taskId,
+          runs: runs.map(formatScheduleRun),
+          count: runs.length
+        }
+      };
+  });
+
   /**
    * 修改定时任务
    * PUT /schedule
-   * Body: { authKey, taskId, command?, mode?, executeAt?, countdown?, interval?, enabled? }
+   * Body: { authKey, taskId, command?, mode?, executeAt?, countdown?, interval?, cron?, timezone?, solar?, enabled?, retryWindow?, preview? }
    */
   fastify.put('/schedule', async (request: FastifyRequest<{ Body: UpdateScheduleBody }>, reply: FastifyReply): Promise<ApiResponse> => {
-      const { authKey, taskId, command, mode, executeAt, countdown, interval, enabled } = request.body || {};
+      const { authKey, taskId, command, mode, executeAt, countdown, interval, cron, timezone, solar, enabled, retryWindow, preview } = request.body || {};
 
       if (!authKey) {
         return reply.status(400).send({
@@ -701,9 +1275,9 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         });
       }
 
-      // 检查任务是否存在
+      // 检查任务是否存在，只能修改自己创建的任务
       const existingTask = scheduler.getTask(taskId);
-      if (!existingTask) {
+      if (!existingTask || existingTask.ownerDeviceId !== device.id) {
         return reply.status(404).send({
           message: 1008,
           detail: '任务不存在'
@@ -712,10 +1286,10 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
 
       // 校验新模式的参数
       if (mode) {
-        if (!['scheduled', 'countdown', 'recurring'].includes(mode)) {
+        if (!['scheduled', 'countdown', 'recurring', 'cron', 'solar'].includes(mode)) {
           return reply.status(400).send({
             message: 1001,
-            detail: 'mode必须是 scheduled、countdown 或 recurring'
+            detail: 'mode必须是 scheduled、countdown、recurring、cron 或 solar'
           });
         }
 
@@ -741,6 +1315,47 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         }
       }
 
+      const retryWindowError = checkRetryWindow(retryWindow);
+      if (retryWindowError) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: retryWindowError
+        });
+      }
+
+      if (existingTask.targetType === 'group' && retryWindow) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'retryWindow仅适用于设备任务'
+        });
+      }
+
+      // cron 任务（或切换为 cron 模式）修改表达式或时区时校验
+      const targetMode = mode || existingTask.mode;
+      if (targetMode === 'cron' && (mode === 'cron' || cron !== undefined || timezone !== undefined)) {
+        const cronError = checkCronParams(
+          cron ?? existingTask.cron,
+          timezone ?? existingTask.timezone
+        );
+        if (cronError) {
+          return reply.status(400).send({
+            message: 1001,
+            detail: cronError
+          });
+        }
+      }
+
+      // solar 任务（或切换为 solar 模式）修改太阳事件参数时校验
+      if (targetMode === 'solar' && (mode === 'solar' || solar !== undefined)) {
+        const solarError = checkSolarParams(solar ?? existingTask.solar);
+        if (solarError) {
+          return reply.status(400).send({
+            message: 1001,
+            detail: solarError
+          });
+        }
+      }
+
       // 更新任务
       const updatedTask = scheduler.updateTask(taskId, {
         command,
@@ -748,7 +1363,11 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         executeAt,
         countdown,
         interval,
-        enabled
+        cron,
+        timezone,
+        solar: targetMode === 'solar' && solar ? toSolarSchedule(solar) : undefined,
+        enabled,
+        retryWindow
       });
 
       if (!updatedTask) {
@@ -762,11 +1381,16 @@ export function setupRoutes(fastify: FastifyInstance, deviceCache: IDeviceCache)
         message: 1000,
         detail: {
           taskId: updatedTask.id,
-          deviceId: updatedTask.deviceId,
+          ...formatScheduleTarget(updatedTask),
           command: updatedTask.command,
           mode: updatedTask.mode,
           executeAt: updatedTask.executeAt,
           interval: updatedTask.interval,
+          cron: updatedTask.cron,
+          timezone: updatedTask.timezone,
+          solar: updatedTask.solar,
+          retryWindow: formatRetryWindow(updatedTask.retryWindow),
+          nextRuns: scheduler.getNextRuns(updatedTask, resolvePreviewCount(preview)),
           enabled: updatedTask.enabled
         }
       };
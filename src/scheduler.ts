@@ -1,12 +1,137 @@
 /**
  * 定时任务调度器
- * 支持定时执行、倒计时执行、循环执行任务
+ * 支持定时执行、倒计时执行、循环执行、cron 表达式任务，以及按日出日落等太阳事件执行（solar，每天离线计算）
+ * 已启用的任务按 executeAt 保存在最小堆中，定时器只在最早到期时间唤醒，
+ * 每次唤醒的开销与任务总数无关，执行时间精确到毫秒
+ * 任务目标可以是设备或组，均支持 brokerId:xxx 远程地址，到期后按设备消息或组消息路由投递
+ * 每次执行写入 schedule_runs 执行记录；设置了 retryWindow 的设备任务在目标离线时按
+ * SCHEDULE_RETRY_INTERVAL 重试，直到目标上线或超过重试时长（重试状态不持久化）
+ * 任务持久化在 SQLite 中，Broker 重启后自动恢复
  */
 import Aedes from 'aedes';
 import crypto from 'crypto';
-import { ScheduledTask, ScheduleMode, IDeviceCache, ForwardMessage } from './types';
+import config from './config';
+import { ScheduledTask, ScheduledTaskRecord, ScheduleRunRecord, ScheduleMode, ScheduleTargetType, SolarSchedule, ScheduleCatchUpPolicy, DeliveryRoute, IDeviceCache } from './types';
 import { logger } from './logger';
-import { stringifyForwardMessage } from './serializer';
+import { router } from './router';
+import { bridge, parseRemoteAddress } from './bridge';
+import { getAllScheduledTasks, upsertScheduledTask, deleteScheduledTask, isDeviceInGroup, insertScheduleRun } from './database';
+import { CronSchedule, parseCronExpression, getNextCronTime, getNextCronTimes, isValidTimezone } from './cron';
+import { getNextSolarTime, getNextSolarTimes } from './solar';
+import { TimerQueue } from './timerqueue';
+
+/** 定时器最长等待时间（毫秒），系统时间被调整后最迟在此时间内按新时间重新计算 */
+const MAX_TIMER_DELAY = 60 * 1000;
+
+/** 执行记录查询默认返回条数 */
+const DEFAULT_RUN_LIMIT = 50;
+/** 执行记录查询最多返回条数 */
+const MAX_RUN_LIMIT = 500;
+
+/** 已解析的 cron 表达式缓存 expression -> schedule */
+const cronScheduleCache = new Map<string, CronSchedule>();
+
+/**
+ * 获取解析后的 cron 表达式（带缓存）
+ */
+function getCronSchedule(expression: string): CronSchedule {
+  let schedule = cronScheduleCache.get(expression);
+  if (!schedule) {
+    schedule = parseCronExpression(expression);
+    cronScheduleCache.set(expression, schedule);
+  }
+  return schedule;
+}
+
+/**
+ * 校验 cron 表达式和时区，返回首次执行时间
+ * @throws 表达式或时区无效、或表达式永远不会触发时抛出错误
+ */
+export function validateCronOptions(expression: string, timezone: string, after: number = Date.now()): number {
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`无效的时区: ${timezone}`);
+  }
+  const next = getNextCronTime(getCronSchedule(expression), timezone, after);
+  if (next === null) {
+    throw new Error('cron 表达式在可预见的时间内不会触发');
+  }
+  return next;
+}
+
+/**
+ * 校验太阳事件参数，返回首次执行时间
+ * @throws 该位置在可预见的时间内没有对应事件时抛出错误
+ */
+export function validateSolarOptions(solar: SolarSchedule, after: number = Date.now()): number {
+  const next = getNextSolarTime(solar, after);
+  if (next === null) {
+    throw new Error(`该位置在可预见的时间内没有 ${solar.event} 事件`);
+  }
+  return next;
+}
+
+/**
+ * 目标离线、等待重试的一次执行
+ */
+interface PendingRetry {
+  task: ScheduledTask;     // 触发时的任务快照（一次性任务触发后已从任务表删除）
+  firedAt: number;         // 触发时间
+  deadline: number;        // 重试截止时间
+  nextAttemptAt: number;   // 下次尝试时间
+  attempts: number;        // 已尝试次数
+}
+
+/**
+ * 校验任务的 retryWindow 参数（秒）
+ * @returns 错误信息，校验通过返回 null
+ */
+export function checkRetryWindow(retryWindow: unknown): string | null {
+  if (retryWindow === undefined) return null;
+  if (typeof retryWindow !== 'number' || !Number.isInteger(retryWindow) || retryWindow < 0) {
+    return 'retryWindow必须是非负整数（秒）';
+  }
+  if (retryWindow > config.scheduler.maxRetryWindow) {
+    return `retryWindow不能超过 ${config.scheduler.maxRetryWindow} 秒`;
+  }
+  return null;
+}
+
+/**
+ * 将内部保存的 retryWindow（毫秒）转换为接口返回的秒数，与请求参数单位一致
+ * @returns 秒数，未设置时返回 null
+ */
+export function formatRetryWindow(retryWindow: number | null | undefined): number | null {
+  return retryWindow ? Math.round(retryWindow / 1000) : null;
+}
+
+/**
+ * 解析执行记录查询的 limit 参数，限制在 1 ~ MAX_RUN_LIMIT 之间
+ */
+export function resolveRunLimit(limit: unknown): number {
+  const count = Number(limit ?? DEFAULT_RUN_LIMIT);
+  if (!Number.isFinite(count) || count < 1) {
+    return DEFAULT_RUN_LIMIT;
+  }
+  return Math.min(Math.floor(count), MAX_RUN_LIMIT);
+}
+
+/**
+ * 执行记录的对外格式
+ */
+export function formatScheduleRun(run: ScheduleRunRecord): Record<string, unknown> {
+  return {
+    runId: run.id,
+    taskId: run.task_id,
+    targetType: run.target_type,
+    target: run.target,
+    firedAt: run.fired_at,
+    executedAt: run.executed_at,
+    attempts: run.attempts,
+    targetOnline: run.target_online === null ? null : run.target_online === 1,
+    route: run.route,
+    error: run.error
+  };
+}
 
 /**
  * 生成唯一任务ID
@@ -15,75 +140,266 @@ function generateTaskId(): string {
   return crypto.randomBytes(8).toString('hex');
 }
 
+/**
+ * 将数据库记录转换为任务对象
+ */
+function recordToTask(record: ScheduledTaskRecord): ScheduledTask {
+  return {
+    id: record.id,
+    ownerDeviceId: record.owner_device_id,
+    targetType: record.target_type,
+    deviceId: record.device_id,
+    command: JSON.parse(record.command),
+    mode: record.mode,
+    executeAt: record.execute_at,
+    interval: record.interval ?? undefined,
+    cron: record.cron ?? undefined,
+    timezone: record.timezone ?? undefined,
+    solar: record.solar ? JSON.parse(record.solar) : undefined,
+    createdAt: record.created_at,
+    lastExecutedAt: record.last_executed_at ?? undefined,
+    enabled: record.enabled === 1,
+    retryWindow: record.retry_window ?? undefined
+  };
+}
+
 /**
  * 定时任务调度器类
  */
 export class Scheduler {
   // 存储所有定时任务 taskId -> task
   private tasks: Map<string, ScheduledTask>;
-  
-  // 检查任务的定时器
-  private checkTimer: NodeJS.Timeout | null;
+
+  // 已启用任务的到期队列 taskId -> executeAt
+  private queue: TimerQueue<string>;
+
+  // 到期唤醒定时器及其唤醒时间
+  private timer: NodeJS.Timeout | null;
+  private timerAt: number | null;
+
+  // 调度器是否已启动
+  private running: boolean;
   
   // Aedes 实例引用
   private aedes: Aedes | null;
   
   // 设备缓存引用
   private deviceCache: IDeviceCache | null;
-  
-  // 检查间隔（毫秒）
-  private readonly checkInterval: number;
+
+  // 启动补偿：需要补执行多次的任务 taskId -> 执行次数（all 策略）
+  private catchUpRuns: Map<string, number>;
+
+  // 目标离线、等待重试的执行 retryId -> retry
+  private pendingRetries: Map<number, PendingRetry>;
+  private retryQueue: TimerQueue<number>;
+  private nextRetryId = 1;
   
   // 系统 clientId，用于发送定时任务指令
   private readonly systemClientId = '__scheduler__';
 
-  constructor(checkInterval: number = 1000) {
+  constructor() {
     this.tasks = new Map();
-    this.checkTimer = null;
+    this.queue = new TimerQueue();
+    this.timer = null;
+    this.timerAt = null;
+    this.running = false;
+    this.catchUpRuns = new Map();
+    this.pendingRetries = new Map();
+    this.retryQueue = new TimerQueue();
     this.aedes = null;
     this.deviceCache = null;
-    this.checkInterval = checkInterval;
   }
 
   /**
-   * 初始化调度器
+   * 初始化调度器，从数据库恢复任务
    */
   init(aedes: Aedes, deviceCache: IDeviceCache): void {
     this.aedes = aedes;
     this.deviceCache = deviceCache;
+    this.loadTasks(config.scheduler.catchUpPolicy);
     logger.scheduler('调度器已初始化');
   }
 
+  /**
+   * 从数据库加载任务，并按补偿策略处理停机期间错过执行的任务
+   */
+  private loadTasks(policy: ScheduleCatchUpPolicy): void {
+    const now = Date.now();
+    let missedCount = 0;
+
+    this.tasks.clear();
+    this.queue.clear();
+    this.catchUpRuns.clear();
+
+    for (const record of getAllScheduledTasks()) {
+      let task: ScheduledTask;
+      try {
+        task = recordToTask(record);
+      } catch (error) {
+        logger.error(`定时任务 ${record.id} 数据损坏，已忽略: ${(error as Error).message}`);
+        continue;
+      }
+
+      if (task.enabled && task.executeAt < now) {
+        missedCount++;
+        if (!this.applyCatchUpPolicy(task, policy, now)) {
+          deleteScheduledTask(task.id);
+          continue;
+        }
+      }
+
+      this.tasks.set(task.id, task);
+      if (task.enabled) {
+        this.queue.set(task.id, task.executeAt);
+      }
+    }
+
+    if (this.tasks.size > 0 || missedCount > 0) {
+      console.log(`已恢复 ${this.tasks.size} 个定时任务（错过执行 ${missedCount} 个，补偿策略: ${policy}）`);
+    }
+  }
+
+  /**
+   * 对错过执行时间的任务应用补偿策略
+   * @returns false 表示任务应被丢弃
+   */
+  private applyCatchUpPolicy(task: ScheduledTask, policy: ScheduleCatchUpPolicy, now: number): boolean {
+    const isRecurring = task.mode === 'recurring' && !!task.interval;
+    // cron / solar 任务按规则计算触发点
+    const isCalendar = (task.mode === 'cron' && !!task.cron) || (task.mode === 'solar' && !!task.solar);
+
+    switch (policy) {
+      case 'skip':
+        if (isRecurring) {
+          // 顺延到下一个未来的周期点
+          task.executeAt += Math.ceil((now - task.executeAt) / task.interval!) * task.interval!;
+        } else if (isCalendar) {
+          const next = this.getNextRun(task, now);
+          if (next === null) return false;
+          task.executeAt = next;
+        } else {
+          logger.scheduler(`任务 ${task.id} 已错过执行时间，按 skip 策略丢弃`);
+          return false;
+        }
+        upsertScheduledTask(task);
+        logger.scheduler(`任务 ${task.id} 已错过执行时间，顺延到 ${new Date(task.executeAt).toISOString()}`);
+        return true;
+
+      case 'all':
+        if (isRecurring) {
+          const missedRuns = Math.floor((now - task.executeAt) / task.interval!) + 1;
+          this.catchUpRuns.set(task.id, Math.min(missedRuns, config.scheduler.maxCatchUpRuns));
+        } else if (isCalendar) {
+          // executeAt 本身算一次，再统计其后到 now 之间错过的触发点
+          let missedRuns = 1;
+          let cursor = task.executeAt;
+          while (missedRuns < config.scheduler.maxCatchUpRuns) {
+            const next = this.getNextRun(task, cursor);
+            if (next === null || next > now) break;
+            missedRuns++;
+            cursor = next;
+          }
+          this.catchUpRuns.set(task.id, missedRuns);
+        }
+        // executeAt 保持在过去，首次检查时即补执行
+        return true;
+
+      case 'once':
+      default:
+        // executeAt 保持在过去，首次检查时补执行一次
+        return true;
+    }
+  }
+
   /**
    * 启动调度器
    */
   start(): void {
-    if (this.checkTimer) {
+    if (this.running) {
       return; // 已经在运行
     }
 
-    this.checkTimer = setInterval(() => {
-      this.checkAndExecuteTasks();
-    }, this.checkInterval);
-
-    logger.scheduler(`调度器已启动，检查间隔: ${this.checkInterval}ms`);
+    this.running = true;
+    this.arm();
+    logger.scheduler(`调度器已启动，${this.queue.size} 个任务等待执行`);
   }
 
   /**
    * 停止调度器
    */
   stop(): void {
-    if (this.checkTimer) {
-      clearInterval(this.checkTimer);
-      this.checkTimer = null;
-      logger.scheduler('调度器已停止');
+    if (!this.running) {
+      return;
     }
+
+    this.running = false;
+    this.clearTimer();
+    logger.scheduler('调度器已停止');
+  }
+
+  /**
+   * 按最早到期时间（任务或重试）设置唤醒定时器
+   */
+  private arm(): void {
+    if (!this.running) return;
+
+    const taskAt = this.queue.peekTime();
+    const retryAt = this.retryQueue.peekTime();
+    if (taskAt === null && retryAt === null) {
+      this.clearTimer();
+      return;
+    }
+
+    const now = Date.now();
+    const nextAt = Math.min(taskAt ?? Infinity, retryAt ?? Infinity);
+    const wakeAt = Math.min(nextAt, now + MAX_TIMER_DELAY);
+
+    // 已有不晚于该时间的唤醒，届时会重新设置
+    if (this.timer && this.timerAt !== null && this.timerAt <= wakeAt) return;
+
+    this.clearTimer();
+    this.timerAt = wakeAt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.timerAt = null;
+      try {
+        this.runDueTasks();
+      } finally {
+        this.arm();
+      }
+    }, Math.max(0, wakeAt - now));
+  }
+
+  /**
+   * 清除唤醒定时器
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.timerAt = null;
+    }
+  }
+
+  /**
+   * 按任务当前的启用状态和执行时间更新到期队列（创建、修改任务后调用）
+   */
+  private enqueue(task: ScheduledTask): void {
+    if (task.enabled) {
+      this.queue.set(task.id, task.executeAt);
+    } else {
+      this.queue.delete(task.id);
+    }
+    this.arm();
   }
 
   /**
    * 创建定时任务
+   * @param ownerDeviceId 创建者设备 ID（devices.id）
    */
   createTask(
+    ownerDeviceId: number | null,
+    targetType: ScheduleTargetType,
     deviceId: string,
     command: unknown,
     mode: ScheduleMode,
@@ -91,11 +407,18 @@ export class Scheduler {
       executeAt?: number;      // 定时执行的时间戳
       countdown?: number;      // 倒计时秒数
       interval?: number;       // 循环间隔秒数
+      cron?: string;           // cron 表达式
+      timezone?: string;       // cron 表达式的 IANA 时区
+      solar?: SolarSchedule;   // 太阳事件参数
+      retryWindow?: number;    // 目标离线时的重试时长秒数
     }
   ): ScheduledTask {
     const now = Date.now();
     let executeAt: number;
     let interval: number | undefined;
+    let cron: string | undefined;
+    let timezone: string | undefined;
+    let solar: SolarSchedule | undefined;
 
     switch (mode) {
       case 'scheduled':
@@ -124,23 +447,50 @@ export class Scheduler {
         interval = options.interval * 1000;
         break;
 
+      case 'cron':
+        // cron 表达式：按表达式计算下一次执行时间
+        if (!options.cron) {
+          throw new Error('cron 模式需要 cron 参数');
+        }
+        cron = options.cron.trim();
+        timezone = options.timezone || config.scheduler.defaultTimezone;
+        executeAt = validateCronOptions(cron, timezone, now);
+        break;
+
+      case 'solar':
+        // 太阳事件：按经纬度计算下一次事件时间
+        if (!options.solar) {
+          throw new Error('solar 模式需要 solar 参数');
+        }
+        solar = options.solar;
+        executeAt = validateSolarOptions(solar, now);
+        break;
+
       default:
         throw new Error(`不支持的执行模式: ${mode}`);
     }
 
     const task: ScheduledTask = {
       id: generateTaskId(),
+      ownerDeviceId,
+      targetType,
       deviceId,
       command,
       mode,
       executeAt,
       interval,
+      cron,
+      timezone,
+      solar,
       createdAt: now,
-      enabled: true
+      enabled: true,
+      retryWindow: options.retryWindow ? options.retryWindow * 1000 : undefined
     };
 
     this.tasks.set(task.id, task);
-    logger.scheduler(`创建任务: ${task.id}, 模式: ${mode}, 目标设备: ${deviceId}, 执行时间: ${new Date(executeAt).toISOString()}`);
+    upsertScheduledTask(task);
+    this.enqueue(task);
+    logger.scheduler(`创建任务: ${task.id}, 模式: ${mode}, 目标${targetType === 'group' ? '组' : '设备'}: ${deviceId}, 执行时间: ${new Date(executeAt).toISOString()}`);
 
     return task;
   }
@@ -155,10 +505,50 @@ export class Scheduler {
     }
 
     this.tasks.delete(taskId);
+    this.queue.delete(taskId);
+    this.catchUpRuns.delete(taskId);
+    this.dropRetries(taskId);
+    deleteScheduledTask(taskId);
     logger.scheduler(`取消任务: ${taskId}`);
     return true;
   }
 
+  /**
+   * 取消设备创建的所有定时任务（设备删除时调用）
+   * @returns 取消的任务数
+   */
+  cancelTasksByOwner(ownerDeviceId: number): number {
+    let count = 0;
+    for (const task of this.getTasksByOwner(ownerDeviceId)) {
+      if (this.cancelTask(task.id)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 取消以设备或组为目标的所有定时任务（设备或组删除时调用，任务可能由其他设备创建）
+   * @param target 目标设备的 clientId 或组名
+   * @returns 取消的任务数
+   */
+  cancelTasksByTarget(targetType: ScheduleTargetType, target: string): number {
+    const taskIds: string[] = [];
+    for (const task of this.tasks.values()) {
+      if (task.targetType === targetType && task.deviceId === target) {
+        taskIds.push(task.id);
+      }
+    }
+
+    let count = 0;
+    for (const taskId of taskIds) {
+      if (this.cancelTask(taskId)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
   /**
    * 修改定时任务
    */
@@ -170,7 +560,11 @@ export class Scheduler {
       executeAt?: number;
       countdown?: number;
       interval?: number;
+      cron?: string;
+      timezone?: string;
+      solar?: SolarSchedule;
       enabled?: boolean;
+      retryWindow?: number;
     }
   ): ScheduledTask | null {
     const task = this.tasks.get(taskId);
@@ -179,63 +573,157 @@ export class Scheduler {
     }
 
     const now = Date.now();
+    // 在副本上计算修改后的任务，cron / solar 参数校验全部通过后再一次性应用，
+    // 避免校验失败时内存中的任务已被部分修改、与数据库不一致
+    const next: ScheduledTask = { ...task };
 
     // 更新指令
     if (updates.command !== undefined) {
-      task.command = updates.command;
+      next.command = updates.command;
     }
 
     // 更新启用状态
     if (updates.enabled !== undefined) {
-      task.enabled = updates.enabled;
+      next.enabled = updates.enabled;
+    }
+
+    // 更新重试时长（0 为不重试）
+    if (updates.retryWindow !== undefined) {
+      next.retryWindow = updates.retryWindow > 0 ? updates.retryWindow * 1000 : undefined;
     }
 
     // 更新执行模式和时间
     if (updates.mode) {
-      task.mode = updates.mode;
+      if (updates.mode === 'solar') {
+        const solar = updates.solar || next.solar;
+        if (!solar) {
+          throw new Error('solar 模式需要 solar 参数');
+        }
+        next.executeAt = validateSolarOptions(solar, now);
+        next.solar = solar;
+        next.interval = undefined;
+      } else {
+        next.solar = undefined;
+      }
+
+      if (updates.mode === 'cron') {
+        const cron = (updates.cron || next.cron || '').trim();
+        if (!cron) {
+          throw new Error('cron 模式需要 cron 参数');
+        }
+        const timezone = updates.timezone || next.timezone || config.scheduler.defaultTimezone;
+        next.executeAt = validateCronOptions(cron, timezone, now);
+        next.cron = cron;
+        next.timezone = timezone;
+        next.interval = undefined;
+      } else {
+        next.cron = undefined;
+        next.timezone = undefined;
+      }
+
+      next.mode = updates.mode;
 
       switch (updates.mode) {
         case 'scheduled':
           if (updates.executeAt) {
-            task.executeAt = updates.executeAt;
+            next.executeAt = updates.executeAt;
           }
-          task.interval = undefined;
+          next.interval = undefined;
           break;
 
         case 'countdown':
           if (updates.countdown && updates.countdown > 0) {
-            task.executeAt = now + updates.countdown * 1000;
+            next.executeAt = now + updates.countdown * 1000;
           }
-          task.interval = undefined;
+          next.interval = undefined;
           break;
 
         case 'recurring':
           if (updates.interval && updates.interval > 0) {
-            task.interval = updates.interval * 1000;
+            next.interval = updates.interval * 1000;
             // 如果提供了新的执行时间则使用，否则保持原有
             if (updates.executeAt) {
-              task.executeAt = updates.executeAt;
+              next.executeAt = updates.executeAt;
             }
           }
           break;
       }
+    } else if (next.mode === 'cron') {
+      // cron 任务：修改表达式或时区后重新计算下一次执行时间
+      if (updates.cron || updates.timezone) {
+        const cron = (updates.cron || next.cron || '').trim();
+        const timezone = updates.timezone || next.timezone || config.scheduler.defaultTimezone;
+        next.executeAt = validateCronOptions(cron, timezone, now);
+        next.cron = cron;
+        next.timezone = timezone;
+      }
+    } else if (next.mode === 'solar') {
+      // solar 任务：修改太阳事件参数后重新计算下一次执行时间
+      if (updates.solar) {
+        next.executeAt = validateSolarOptions(updates.solar, now);
+        next.solar = updates.solar;
+      }
     } else {
       // 不改变模式，但可以更新时间参数
       if (updates.executeAt) {
-        task.executeAt = updates.executeAt;
+        next.executeAt = updates.executeAt;
       } else if (updates.countdown && updates.countdown > 0) {
-        task.executeAt = now + updates.countdown * 1000;
+        next.executeAt = now + updates.countdown * 1000;
       }
 
-      if (updates.interval && updates.interval > 0 && task.mode === 'recurring') {
-        task.interval = updates.interval * 1000;
+      if (updates.interval && updates.interval > 0 && next.mode === 'recurring') {
+        next.interval = updates.interval * 1000;
       }
     }
 
+    Object.assign(task, next);
+    upsertScheduledTask(task);
+    this.enqueue(task);
     logger.scheduler(`更新任务: ${taskId}, 新执行时间: ${new Date(task.executeAt).toISOString()}`);
     return task;
   }
 
+  /**
+   * 计算 cron / solar 任务在指定时刻之后的下一次执行时间，其他模式返回 null
+   */
+  private getNextRun(task: ScheduledTask, after: number): number | null {
+    if (task.mode === 'solar') {
+      return task.solar ? getNextSolarTime(task.solar, after) : null;
+    }
+    if (task.mode !== 'cron' || !task.cron) return null;
+    try {
+      return getNextCronTime(getCronSchedule(task.cron), task.timezone || config.scheduler.defaultTimezone, after);
+    } catch (error) {
+      logger.error(`任务 ${task.id} cron 表达式无效: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  /**
+   * 预览任务接下来的若干次执行时间
+   */
+  getNextRuns(task: ScheduledTask, count: number): number[] {
+    if (!task.enabled || count <= 0) {
+      return [];
+    }
+
+    if (task.mode === 'cron' && task.cron) {
+      const first = task.executeAt;
+      const rest = getNextCronTimes(getCronSchedule(task.cron), task.timezone || config.scheduler.defaultTimezone, first, count - 1);
+      return [first, ...rest];
+    }
+
+    if (task.mode === 'solar' && task.solar) {
+      return [task.executeAt, ...getNextSolarTimes(task.solar, task.executeAt, count - 1)];
+    }
+
+    if (task.mode === 'recurring' && task.interval) {
+      return Array.from({ length: count }, (_, i) => task.executeAt + i * task.interval!);
+    }
+
+    return [task.executeAt];
+  }
+
   /**
    * 获取任务
    */
@@ -244,12 +732,25 @@ export class Scheduler {
   }
 
   /**
-   * 获取设备的所有任务
+   * 获取以设备为目标的所有任务
    */
   getTasksByDevice(deviceId: string): ScheduledTask[] {
     const result: ScheduledTask[] = [];
     for (const task of this.tasks.values()) {
-      if (task.deviceId === deviceId) {
+      if (task.targetType === 'device' && task.deviceId === deviceId) {
+        result.push(task);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 获取设备创建的所有任务
+   */
+  getTasksByOwner(ownerDeviceId: number): ScheduledTask[] {
+    const result: ScheduledTask[] = [];
+    for (const task of this.tasks.values()) {
+      if (task.ownerDeviceId === ownerDeviceId) {
         result.push(task);
       }
     }
@@ -264,88 +765,221 @@ export class Scheduler {
   }
 
   /**
-   * 检查并执行到期的任务
+   * 执行所有已到期的任务
    */
-  private checkAndExecuteTasks(): void {
+  private runDueTasks(): void {
     const now = Date.now();
 
-    for (const [taskId, task] of this.tasks.entries()) {
-      if (!task.enabled) {
+    this.processRetries(now);
+
+    let taskId: string | undefined;
+    while ((taskId = this.queue.popDue(now)) !== undefined) {
+      const task = this.tasks.get(taskId);
+      if (!task || !task.enabled) {
         continue;
       }
 
-      if (now >= task.executeAt) {
-        // 执行任务
-        this.executeTask(task);
-
-        // 根据模式处理任务
-        if (task.mode === 'recurring' && task.interval) {
-          // 循环任务：更新下次执行时间
-          task.executeAt = now + task.interval;
-          task.lastExecutedAt = now;
-          logger.scheduler(`循环任务 ${taskId} 下次执行时间: ${new Date(task.executeAt).toISOString()}`);
-        } else {
-          // 非循环任务：执行后删除
-          this.tasks.delete(taskId);
-          logger.scheduler(`任务 ${taskId} 执行完成并已删除`);
+      try {
+        this.runTask(task, now);
+      } catch (error) {
+        logger.error(`执行定时任务 ${taskId} 失败: ${(error as Error).message}`);
+        // 任务仍存在但已出队时，在重试间隔后重新执行，避免任务丢失或在本轮内反复失败
+        if (this.tasks.has(taskId) && !this.queue.has(taskId)) {
+          this.queue.set(taskId, Math.max(task.executeAt, now + config.scheduler.retryInterval));
         }
       }
     }
   }
 
   /**
-   * 执行任务：向目标设备发送指令
+   * 执行单个到期任务，并更新其下次执行时间或删除任务
+   */
+  private runTask(task: ScheduledTask, now: number): void {
+    const taskId = task.id;
+    // 执行任务（启动补偿的任务可能需要补执行多次）
+    const runs = this.catchUpRuns.get(taskId) ?? 1;
+    this.catchUpRuns.delete(taskId);
+    for (let i = 0; i < runs; i++) {
+      this.executeTask(task, now);
+    }
+
+    // 根据模式处理任务（先更新到期队列再写库，写库失败时任务仍按新时间执行，不会重复投递）
+    const nextRun = this.getNextRun(task, now);
+    if (task.mode === 'recurring' && task.interval) {
+      // 循环任务：更新下次执行时间
+      task.executeAt = now + task.interval;
+      task.lastExecutedAt = now;
+      this.queue.set(taskId, task.executeAt);
+      upsertScheduledTask(task);
+      logger.scheduler(`循环任务 ${taskId} 下次执行时间: ${new Date(task.executeAt).toISOString()}`);
+    } else if (nextRun !== null) {
+      // cron / solar 任务：按表达式或太阳事件计算下次执行时间
+      task.executeAt = nextRun;
+      task.lastExecutedAt = now;
+      this.queue.set(taskId, task.executeAt);
+      upsertScheduledTask(task);
+      logger.scheduler(`${task.mode} 任务 ${taskId} 下次执行时间: ${new Date(task.executeAt).toISOString()}`);
+    } else {
+      // 非循环任务：执行后删除
+      this.tasks.delete(taskId);
+      deleteScheduledTask(taskId);
+      logger.scheduler(`任务 ${taskId} 执行完成并已删除`);
+    }
+  }
+
+  /**
+   * 执行任务：向目标设备或组发送指令
+   * 设置了 retryWindow 的任务目标离线时暂不投递，等待重试
    */
-  private executeTask(task: ScheduledTask): void {
+  private executeTask(task: ScheduledTask, firedAt: number): void {
     if (!this.aedes || !this.deviceCache) {
       logger.scheduler(`无法执行任务 ${task.id}: 调度器未初始化`);
       return;
     }
 
-    const { deviceId, command } = task;
+    const targetOnline = this.isTargetOnline(task);
+    if (targetOnline === false && task.retryWindow) {
+      logger.scheduler(`任务 ${task.id}: 目标设备 ${task.deviceId} 离线，等待重试`);
+      const retryId = this.nextRetryId++;
+      const nextAttemptAt = Math.min(firedAt + config.scheduler.retryInterval, firedAt + task.retryWindow);
+      this.pendingRetries.set(retryId, {
+        task: { ...task },
+        firedAt,
+        deadline: firedAt + task.retryWindow,
+        nextAttemptAt,
+        attempts: 1
+      });
+      this.retryQueue.set(retryId, nextAttemptAt);
+      return;
+    }
 
-    // 构造转发消息
-    const forwardMessage: ForwardMessage = {
-      fromDevice: this.systemClientId,
-      data: command
-    };
+    this.deliver(task, firedAt, 1, targetOnline, null);
+  }
 
-    logger.scheduler(`执行任务 ${task.id}: 向设备 ${deviceId} 发送指令`);
+  /**
+   * 重试到期的离线执行：目标上线则投递，超过重试时长则按普通消息投递（离线 MQTT 设备写入离线队列）
+   */
+  private processRetries(now: number): void {
+    let retryId: number | undefined;
+    while ((retryId = this.retryQueue.popDue(now)) !== undefined) {
+      const retry = this.pendingRetries.get(retryId);
+      if (!retry) {
+        continue;
+      }
 
-    // 检查目标设备是否为 HTTP 模式
-    if (this.deviceCache.isHttpMode(deviceId)) {
-      // HTTP 模式：暂存消息
-      this.deviceCache.addPendingMessage(deviceId, forwardMessage);
-      logger.scheduler(`任务 ${task.id}: 消息已暂存给 HTTP 设备 ${deviceId}`);
-      return;
+      retry.attempts++;
+      try {
+        const targetOnline = this.isTargetOnline(retry.task);
+        if (targetOnline !== false) {
+          this.pendingRetries.delete(retryId);
+          this.deliver(retry.task, retry.firedAt, retry.attempts, targetOnline, null);
+        } else if (now >= retry.deadline) {
+          this.pendingRetries.delete(retryId);
+          logger.scheduler(`任务 ${retry.task.id}: 目标设备 ${retry.task.deviceId} 在重试时长内未上线`);
+          this.deliver(retry.task, retry.firedAt, retry.attempts, targetOnline, '目标设备离线，重试超时');
+        } else {
+          retry.nextAttemptAt = Math.min(now + config.scheduler.retryInterval, retry.deadline);
+          this.retryQueue.set(retryId, retry.nextAttemptAt);
+        }
+      } catch (error) {
+        this.pendingRetries.delete(retryId);
+        logger.error(`定时任务 ${retry.task.id} 重试失败: ${(error as Error).message}`);
+      }
     }
+  }
 
-    // MQTT 模式：发送到目标设备的接收 topic
-    const targetTopic = `/device/${deviceId}/r`;
-    const payload = stringifyForwardMessage(forwardMessage);
-
-    this.aedes.publish({
-      topic: targetTopic,
-      payload: Buffer.from(payload),
-      qos: 0,
-      retain: false,
-      cmd: 'publish',
-      dup: false
-    }, (error: Error | undefined) => {
-      if (error) {
-        logger.scheduler(`任务 ${task.id} 发送失败: ${error.message}`);
+  /**
+   * 丢弃任务等待中的重试（任务取消时调用）
+   */
+  private dropRetries(taskId: string): void {
+    for (const [retryId, retry] of this.pendingRetries.entries()) {
+      if (retry.task.id === taskId) {
+        this.pendingRetries.delete(retryId);
+        this.retryQueue.delete(retryId);
+      }
+    }
+  }
+
+  /**
+   * 目标是否在线：本地设备按连接状态，远程设备按远程 Broker 是否已连接，组任务返回 null
+   */
+  private isTargetOnline(task: ScheduledTask): boolean | null {
+    if (task.targetType === 'group') {
+      return null;
+    }
+
+    const remoteAddr = parseRemoteAddress(task.deviceId);
+    if (remoteAddr) {
+      return bridge.isRemoteConnected(remoteAddr.brokerId);
+    }
+
+    const clientId = task.deviceId;
+    return this.deviceCache !== null && (
+      this.deviceCache.isClientOnline(clientId) ||
+      (this.deviceCache.isHttpMode(clientId) && this.deviceCache.getDeviceByClientId(clientId) !== undefined)
+    );
+  }
+
+  /**
+   * 投递任务指令并写入执行记录
+   * @param error 已知的失败原因（重试超时）
+   */
+  private deliver(task: ScheduledTask, firedAt: number, attempts: number, targetOnline: boolean | null, error: string | null): void {
+    const { deviceId, command } = task;
+    let route: DeliveryRoute | null = null;
+
+    try {
+      if (task.targetType === 'group') {
+        // 创建者已离开本地组时不再向该组发送（远程组由远程 Broker 处理）
+        if (task.ownerDeviceId !== null && !parseRemoteAddress(deviceId) && !isDeviceInGroup(task.ownerDeviceId, deviceId)) {
+          logger.scheduler(`跳过任务 ${task.id}: 创建者已不在组 ${deviceId} 中`);
+          error = '创建者已不在目标组中';
+        } else {
+          logger.scheduler(`执行任务 ${task.id}: 向组 ${deviceId} 发送指令`);
+
+          // 与设备发出的组消息走同一路由：组成员 HTTP 设备暂存、MQTT 组 topic 发布、远程组经 Bridge 转发
+          route = router.routeGroupMessage(this.systemClientId, deviceId, command);
+        }
       } else {
-        logger.scheduler(`任务 ${task.id}: 消息已发送到 ${targetTopic}`);
+        logger.scheduler(`执行任务 ${task.id}: 向设备 ${deviceId} 发送指令`);
+
+        // 与设备发出的消息走同一路由：HTTP 设备暂存、MQTT 设备发布、远程设备经 Bridge 转发
+        route = router.sendToDevice(this.systemClientId, deviceId, command);
       }
+
+      if (route !== null) {
+        logger.scheduler(`任务 ${task.id}: 投递方式 ${route}`);
+      }
+      if (route === 'unavailable') {
+        error = error ?? '远程 Broker 未连接';
+      }
+    } catch (err) {
+      error = (err as Error).message;
+      logger.error(`任务 ${task.id} 执行失败: ${error}`);
+    }
+
+    insertScheduleRun({
+      task_id: task.id,
+      owner_device_id: task.ownerDeviceId,
+      target_type: task.targetType,
+      target: deviceId,
+      fired_at: firedAt,
+      executed_at: Date.now(),
+      attempts,
+      target_online: targetOnline === null ? null : (targetOnline ? 1 : 0),
+      route,
+      error
     });
   }
 
   /**
    * 获取调度器统计信息
    */
-  getStats(): { totalTasks: number; enabledTasks: number; recurringTasks: number } {
+  getStats(): { totalTasks: number; enabledTasks: number; recurringTasks: number; cronTasks: number; solarTasks: number } {
     let enabledTasks = 0;
     let recurringTasks = 0;
+    let cronTasks = 0;
+    let solarTasks = 0;
 
     for (const task of this.tasks.values()) {
       if (task.enabled) {
@@ -354,12 +988,20 @@ export class Scheduler {
       if (task.mode === 'recurring') {
         recurringTasks++;
       }
+      if (task.mode === 'cron') {
+        cronTasks++;
+      }
+      if (task.mode === 'solar') {
+        solarTasks++;
+      }
     }
 
     return {
       totalTasks: this.tasks.size,
       enabledTasks,
-      recurringTasks
+      recurringTasks,
+      cronTasks,
+      solarTasks
     };
   }
 }
@@ -14,6 +14,8 @@ export const stringifyForwardMessage = fastJson({
   type: 'object',
   properties: {
     fromDevice: { type: 'string' },
+    type: { type: 'string' },
+    msgId: { type: 'string' },
     fromGroup: { type: 'string' },
     data: {}  // any type
   },
@@ -34,6 +36,23 @@ export const stringifyGroupForwardMessage = fastJson({
   required: ['fromGroup', 'fromDevice', 'data']
 });
 
+/**
+ * 设备上下线事件序列化器
+ */
+export const stringifyPresenceMessage = fastJson({
+  title: 'PresenceMessage',
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    fromGroup: { type: 'string' },
+    device: { type: 'string' },
+    online: { type: 'boolean' },
+    mode: { type: 'string' },
+    ts: { type: 'integer' }
+  },
+  required: ['type', 'fromGroup', 'device', 'online', 'mode', 'ts']
+});
+
 /**
  * API 响应序列化器
  */
@@ -57,6 +76,9 @@ export const stringifyBridgeMessage = fastJson({
     fromBroker: { type: 'string' },
     fromDevice: { type: 'string' },
     toDevice: { type: 'string' },
+    type: { type: 'string' },
+    msgId: { type: 'string' },
+    qos: { type: 'integer' },
     data: {}  // any type
   },
   required: ['fromBroker', 'fromDevice', 'toDevice', 'data']
@@ -72,6 +94,7 @@ export const stringifyBridgeGroupMessage = fastJson({
     fromBroker: { type: 'string' },
     fromDevice: { type: 'string' },
     toGroup: { type: 'string' },
+    qos: { type: 'integer' },
     data: {}  // any type
   },
   required: ['fromBroker', 'fromDevice', 'toGroup', 'data']
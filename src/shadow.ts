@@ -0,0 +1,382 @@
+/**
+ * 设备影子模块
+ *
+ * 每个设备一份影子文档，存储在 device_config 表中：
+ *   - desired: 期望状态，即设备配置，由用户接口或设备设置
+ *   - reported: 设备上报的实际状态
+ *   - delta: desired 中与 reported 不一致的键，读取时自动计算
+ * 每个键单独记录版本号，值变化时递增；文档版本在每次变化时递增
+ *
+ * desired 变化后差异推送给在线设备，离线设备在下次上线时收到
+ */
+
+import { Client as AedesClient } from 'aedes';
+import {
+  Device,
+  ShadowDeltaMessage,
+  ShadowDocument,
+  ShadowKeyMetadata,
+  ShadowMetadata,
+  ShadowState,
+  ShadowUpdateRequest,
+  ShadowUpdateResult
+} from './types';
+import { logger } from './logger';
+import { router } from './router';
+import { getDeviceConfig, upsertDeviceConfig, deleteDeviceConfig } from './database';
+
+/**
+ * 影子更新被拒绝时抛出
+ * code: 1001 请求格式错误，1009 版本冲突
+ */
+export class ShadowUpdateError extends Error {
+  constructor(message: string, readonly code: 1001 | 1009) {
+    super(message);
+    this.name = 'ShadowUpdateError';
+  }
+}
+
+/**
+ * 数据库中保存的影子
+ */
+interface StoredShadow {
+  desired: ShadowState;
+  reported: ShadowState;
+  metadata: ShadowMetadata;
+  version: number;
+}
+
+/**
+ * 判断是否为 JSON 对象（非数组）
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 深度比较两个 JSON 值
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord);
+  if (aKeys.length !== Object.keys(bRecord).length) return false;
+  return aKeys.every(key => Object.prototype.hasOwnProperty.call(bRecord, key) && isEqual(aRecord[key], bRecord[key]));
+}
+
+/**
+ * 解析 JSON 对象字段，格式错误时返回空对象
+ */
+function parseObject<T extends object>(json: string): T {
+  try {
+    const value: unknown = JSON.parse(json);
+    return (isPlainObject(value) ? value : {}) as T;
+  } catch {
+    return {} as T;
+  }
+}
+
+/**
+ * 将变更合并到状态中，返回是否有键发生变化
+ * @param patch 为 null 时清空整个状态；键值为 null 时删除该键
+ * @param replace 为 true 时删除 patch 中不存在的键
+ */
+function applyPatch(
+  state: ShadowState,
+  metadata: Record<string, ShadowKeyMetadata>,
+  patch: ShadowState | null,
+  replace: boolean,
+  now: number
+): boolean {
+  let changed = false;
+
+  for (const key of Object.keys(state)) {
+    if (patch === null || (replace && !(key in patch))) {
+      delete state[key];
+      delete metadata[key];
+      changed = true;
+    }
+  }
+  if (patch === null) return changed;
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      if (key in state) {
+        delete state[key];
+        delete metadata[key];
+        changed = true;
+      }
+      continue;
+    }
+    if (!(key in state) || !isEqual(state[key], value)) {
+      state[key] = value;
+      metadata[key] = { version: (metadata[key]?.version ?? 0) + 1, timestamp: now };
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * 校验影子更新请求
+ */
+function validateUpdateRequest(request: unknown): ShadowUpdateRequest {
+  if (!isPlainObject(request)) {
+    throw new ShadowUpdateError('请求必须为 JSON 对象', 1001);
+  }
+
+  const { state, version, clientToken } = request as ShadowUpdateRequest;
+  if (!isPlainObject(state) || (state.desired === undefined && state.reported === undefined)) {
+    throw new ShadowUpdateError('state 必须包含 desired 或 reported', 1001);
+  }
+  for (const section of ['desired', 'reported'] as const) {
+    const value = state[section];
+    if (value !== undefined && value !== null && !isPlainObject(value)) {
+      throw new ShadowUpdateError(`state.${section} 必须为 JSON 对象或 null`, 1001);
+    }
+  }
+  if (version !== undefined && (!Number.isInteger(version) || version < 0)) {
+    throw new ShadowUpdateError('version 必须为非负整数', 1001);
+  }
+  if (clientToken !== undefined && typeof clientToken !== 'string') {
+    throw new ShadowUpdateError('clientToken 必须为字符串', 1001);
+  }
+  return request as ShadowUpdateRequest;
+}
+
+/**
+ * 设备影子服务
+ */
+class DeviceShadowService {
+  /**
+   * 获取设备影子文档
+   */
+  getShadow(device: Device): ShadowDocument {
+    return this.toDocument(this.load(device.id));
+  }
+
+  /**
+   * 更新设备影子
+   * @param replaceDesired 为 true 时 desired 整体覆盖，否则按键合并
+   * @throws ShadowUpdateError 请求格式错误或版本不一致
+   */
+  update(device: Device, request: unknown, replaceDesired: boolean = false): ShadowUpdateResult {
+    const { state, version, clientToken } = validateUpdateRequest(request);
+    const shadow = this.load(device.id);
+
+    if (version !== undefined && version !== shadow.version) {
+      throw new ShadowUpdateError(`版本冲突，当前版本为 ${shadow.version}`, 1009);
+    }
+
+    const now = Date.now();
+    let desiredChanged = false;
+    let reportedChanged = false;
+    if (state?.desired !== undefined) {
+      desiredChanged = applyPatch(shadow.desired, shadow.metadata.desired, state.desired, replaceDesired, now);
+    }
+    if (state?.reported !== undefined) {
+      reportedChanged = applyPatch(shadow.reported, shadow.metadata.reported, state.reported, false, now);
+    }
+
+    if (desiredChanged || reportedChanged) {
+      shadow.version++;
+      upsertDeviceConfig(
+        device.id,
+        JSON.stringify(shadow.desired),
+        JSON.stringify(shadow.reported),
+        JSON.stringify(shadow.metadata),
+        shadow.version
+      );
+      logger.shadow(`设备 ${device.uuid} 影子已更新，版本 ${shadow.version}`);
+    }
+
+    const document = this.toDocument(shadow);
+    if (clientToken !== undefined) {
+      document.clientToken = clientToken;
+    }
+
+    // desired 变化后立即把差异推送给设备
+    const pushed = desiredChanged ? this.deliverDelta(device, shadow) : false;
+
+    return { document, pushed };
+  }
+
+  /**
+   * 删除设备影子（desired 与 reported 一并清空）
+   */
+  deleteShadow(device: Device): void {
+    deleteDeviceConfig(device.id);
+    logger.shadow(`设备 ${device.uuid} 影子已删除`);
+  }
+
+  /**
+   * 推送差异给在线设备（HTTP 模式设备暂存待取）
+   * @returns 设备在线且存在差异时返回 true
+   */
+  pushDelta(device: Device): boolean {
+    return this.deliverDelta(device, this.load(device.id));
+  }
+
+  /**
+   * MQTT 设备上线时推送未同步的差异
+   * 直接写入客户端连接，不依赖设备是否已完成订阅
+   */
+  syncOnConnect(client: AedesClient, device: Device): void {
+    const message = this.buildDeltaMessage(this.load(device.id));
+    if (!message) return;
+
+    logger.shadow(`设备 ${client.id} 上线，推送影子差异: ${Object.keys(message.state).join(', ')}`);
+    router.sendToClient(client, `/device/${client.id}/shadow/update/delta`, JSON.stringify(message), 1);
+  }
+
+  /**
+   * 处理设备通过 MQTT 发来的影子请求，结果发布到对应的 accepted / rejected topic
+   * /device/{clientId}/shadow/get    -> /shadow/get/accepted
+   * /device/{clientId}/shadow/update -> /shadow/update/accepted 或 /shadow/update/rejected
+   */
+  handleDeviceRequest(clientId: string, device: Device, action: 'get' | 'update', payload: string): void {
+    let request: unknown = {};
+    if (payload.trim()) {
+      try {
+        request = JSON.parse(payload);
+      } catch {
+        this.reject(clientId, action, new ShadowUpdateError('消息格式错误', 1001));
+        return;
+      }
+    }
+
+    const clientToken = isPlainObject(request) && typeof request.clientToken === 'string'
+      ? request.clientToken
+      : undefined;
+
+    if (action === 'get') {
+      const document = this.getShadow(device);
+      if (clientToken !== undefined) {
+        document.clientToken = clientToken;
+      }
+      router.publishShadow(clientId, 'get/accepted', JSON.stringify(document));
+      return;
+    }
+
+    try {
+      const { document } = this.update(device, request);
+      router.publishShadow(clientId, 'update/accepted', JSON.stringify(document));
+    } catch (error) {
+      if (!(error instanceof ShadowUpdateError)) throw error;
+      this.reject(clientId, action, error, clientToken);
+    }
+  }
+
+  /**
+   * 发布拒绝响应
+   */
+  private reject(clientId: string, action: 'get' | 'update', error: ShadowUpdateError, clientToken?: string): void {
+    logger.shadow(`设备 ${clientId} 影子请求被拒绝: ${error.message}`);
+    router.publishShadow(clientId, `${action}/rejected`, JSON.stringify({
+      message: error.code,
+      detail: error.message,
+      clientToken
+    }));
+  }
+
+  /**
+   * 推送差异消息
+   */
+  private deliverDelta(device: Device, shadow: StoredShadow): boolean {
+    if (!device.client_id) return false;
+
+    const message = this.buildDeltaMessage(shadow);
+    if (!message) return false;
+
+    return router.pushShadowDelta(device.client_id, message);
+  }
+
+  /**
+   * 构造差异消息，无差异时返回 null
+   */
+  private buildDeltaMessage(shadow: StoredShadow): ShadowDeltaMessage | null {
+    const state = this.computeDelta(shadow);
+    const keys = Object.keys(state);
+    if (keys.length === 0) return null;
+
+    const metadata: Record<string, ShadowKeyMetadata> = {};
+    for (const key of keys) {
+      const keyMetadata = shadow.metadata.desired[key];
+      if (keyMetadata) metadata[key] = keyMetadata;
+    }
+
+    return {
+      type: 'shadowDelta',
+      state,
+      metadata,
+      version: shadow.version,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * 计算 desired 中与 reported 不一致的键
+   */
+  private computeDelta(shadow: StoredShadow): ShadowState {
+    const delta: ShadowState = {};
+    for (const [key, value] of Object.entries(shadow.desired)) {
+      if (!(key in shadow.reported) || !isEqual(shadow.reported[key], value)) {
+        delta[key] = value;
+      }
+    }
+    return delta;
+  }
+
+  /**
+   * 转换为对外的影子文档
+   */
+  private toDocument(shadow: StoredShadow): ShadowDocument {
+    return {
+      state: {
+        desired: shadow.desired,
+        reported: shadow.reported,
+        delta: this.computeDelta(shadow)
+      },
+      metadata: shadow.metadata,
+      version: shadow.version,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * 从数据库读取影子
+   */
+  private load(deviceId: number): StoredShadow {
+    const record = getDeviceConfig(deviceId);
+    if (!record) {
+      return { desired: {}, reported: {}, metadata: { desired: {}, reported: {} }, version: 0 };
+    }
+
+    const desired = parseObject<ShadowState>(record.config);
+    const reported = parseObject<ShadowState>(record.reported);
+    const stored = parseObject<Partial<ShadowMetadata>>(record.metadata);
+    const metadata: ShadowMetadata = {
+      desired: isPlainObject(stored.desired) ? stored.desired : {},
+      reported: isPlainObject(stored.reported) ? stored.reported : {}
+    };
+
+    // 旧版本只保存了配置，没有键元数据，以记录的更新时间补齐
+    const updatedAt = Date.parse(`${record.updated_at.replace(' ', 'T')}Z`) || Date.now();
+    for (const [state, keyMetadata] of [[desired, metadata.desired], [reported, metadata.reported]] as const) {
+      for (const key of Object.keys(state)) {
+        if (!keyMetadata[key]) {
+          keyMetadata[key] = { version: 1, timestamp: updatedAt };
+        }
+      }
+    }
+
+    return { desired, reported, metadata, version: record.version };
+  }
+}
+
+// 导出单例
+export const shadow = new DeviceShadowService();
@@ -0,0 +1,123 @@
+/**
+ * 日出日落时间计算
+ * 使用 NOAA 简化的太阳位置算法（日出方程）离线计算，不依赖网络服务，精度约 1 分钟
+ *
+ * 事件:
+ *   - sunrise / sunset: 日出 / 日落（太阳上缘与地平线相切，考虑大气折射，天顶角 90.833°）
+ *   - dawn / dusk: 民用晨光始 / 民用昏影终（太阳中心位于地平线下 6°）
+ *
+ * 极昼、极夜期间当天没有对应事件，顺延到下一个有该事件的日期
+ */
+
+import { SolarEvent, SolarSchedule } from './types';
+
+/** 支持的太阳事件 */
+export const SOLAR_EVENTS: readonly SolarEvent[] = ['sunrise', 'sunset', 'dawn', 'dusk'];
+
+/** 偏移量上限（分钟） */
+export const MAX_SOLAR_OFFSET = 720;
+
+/** 查找下一次事件时最多向后搜索的天数（覆盖极昼、极夜） */
+const MAX_SEARCH_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Unix 纪元对应的儒略日 */
+const JULIAN_UNIX_EPOCH = 2440587.5;
+/** J2000.0 对应的儒略日 */
+const JULIAN_2000 = 2451545.0;
+/** 黄赤交角 */
+const EARTH_OBLIQUITY = 23.4397;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+const toDegrees = (radians: number): number => radians * 180 / Math.PI;
+
+/**
+ * 事件对应的太阳高度角（度）
+ */
+function getSolarAltitude(event: SolarEvent): number {
+  return event === 'dawn' || event === 'dusk' ? -6 : -0.833;
+}
+
+/**
+ * 计算 J2000 起第 day 天的太阳事件时间
+ * @returns 毫秒时间戳，当天没有该事件（极昼、极夜）时返回 null
+ */
+function getSolarEventTime(day: number, latitude: number, longitude: number, event: SolarEvent): number | null {
+  // 平太阳正午
+  const meanNoon = day - longitude / 360;
+  const meanAnomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+  const m = toRadians(meanAnomaly);
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = toRadians((meanAnomaly + center + 180 + 102.9372) % 360);
+  const transit = JULIAN_2000 + meanNoon + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(toRadians(EARTH_OBLIQUITY)));
+  const phi = toRadians(latitude);
+  const cosHourAngle = (Math.sin(toRadians(getSolarAltitude(event))) - Math.sin(phi) * Math.sin(declination))
+    / (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return null;
+  }
+
+  const hourAngle = toDegrees(Math.acos(cosHourAngle)) / 360;
+  const julian = event === 'sunrise' || event === 'dawn' ? transit - hourAngle : transit + hourAngle;
+  return Math.round((julian - JULIAN_UNIX_EPOCH) * DAY_MS);
+}
+
+/**
+ * 计算指定时刻之后的下一次太阳事件触发时间（已加上偏移量）
+ * @returns 毫秒时间戳，可预见的时间内不会触发时返回 null
+ */
+export function getNextSolarTime(schedule: SolarSchedule, after: number): number | null {
+  const offset = schedule.offset * 60 * 1000;
+  // 偏移量可能把前一天的事件推到 after 之后，从 after 所在日期的前两天开始查找
+  const firstDay = Math.floor(after / DAY_MS + JULIAN_UNIX_EPOCH - JULIAN_2000) - 2;
+
+  for (let day = firstDay; day <= firstDay + MAX_SEARCH_DAYS; day++) {
+    const time = getSolarEventTime(day, schedule.latitude, schedule.longitude, schedule.event);
+    if (time !== null && time + offset > after) {
+      return time + offset;
+    }
+  }
+  return null;
+}
+
+/**
+ * 计算指定时刻之后的多次太阳事件触发时间
+ */
+export function getNextSolarTimes(schedule: SolarSchedule, after: number, count: number): number[] {
+  const times: number[] = [];
+  let cursor = after;
+  while (times.length < count) {
+    const next = getNextSolarTime(schedule, cursor);
+    if (next === null) break;
+    times.push(next);
+    cursor = next;
+  }
+  return times;
+}
+
+/**
+ * 校验太阳事件参数
+ * @returns 错误信息，校验通过返回 null
+ */
+export function validateSolarSchedule(solar: unknown): string | null {
+  if (!solar || typeof solar !== 'object') {
+    return 'solar模式需要solar参数（latitude、longitude、event、offset）';
+  }
+
+  const { latitude, longitude, event, offset } = solar as Record<string, unknown>;
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    return 'solar.latitude必须是 -90 ~ 90 之间的纬度';
+  }
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    return 'solar.longitude必须是 -180 ~ 180 之间的经度';
+  }
+  if (typeof event !== 'string' || !SOLAR_EVENTS.includes(event as SolarEvent)) {
+    return `solar.event必须是 ${SOLAR_EVENTS.join('、')} 之一`;
+  }
+  if (offset !== undefined && (typeof offset !== 'number' || !Number.isInteger(offset) || Math.abs(offset) > MAX_SOLAR_OFFSET)) {
+    return `solar.offset必须是 -${MAX_SOLAR_OFFSET} ~ ${MAX_SOLAR_OFFSET} 之间的整数（分钟）`;
+  }
+  return null;
+}
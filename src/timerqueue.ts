@@ -0,0 +1,138 @@
+/**
+ * 定时队列
+ *
+ * 按到期时间排序的索引最小堆，供定时任务调度器使用：
+ *   - set / delete / peek 的复杂度为 O(log n) / O(log n) / O(1)，与任务总数线性无关
+ *   - 同一个 key 只保留一项，重复 set 即修改到期时间（任务修改 executeAt 时直接更新堆中位置）
+ */
+
+interface TimerQueueEntry<K> {
+  key: K;
+  at: number;       // 到期时间（毫秒时间戳）
+}
+
+/**
+ * 定时队列（索引最小堆）
+ */
+export class TimerQueue<K> {
+  private heap: TimerQueueEntry<K>[] = [];
+
+  // key -> 在 heap 中的下标
+  private positions: Map<K, number> = new Map();
+
+  /**
+   * 队列中的项数
+   */
+  get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * 加入或更新一项的到期时间
+   */
+  set(key: K, at: number): void {
+    const index = this.positions.get(key);
+    if (index === undefined) {
+      this.heap.push({ key, at });
+      this.positions.set(key, this.heap.length - 1);
+      this.siftUp(this.heap.length - 1);
+      return;
+    }
+
+    const entry = this.heap[index]!;
+    const previous = entry.at;
+    entry.at = at;
+    if (at < previous) {
+      this.siftUp(index);
+    } else if (at > previous) {
+      this.siftDown(index);
+    }
+  }
+
+  /**
+   * 移除一项
+   * @returns 该项是否在队列中
+   */
+  delete(key: K): boolean {
+    const index = this.positions.get(key);
+    if (index === undefined) return false;
+
+    this.positions.delete(key);
+    const last = this.heap.pop()!;
+    if (index < this.heap.length) {
+      this.heap[index] = last;
+      this.positions.set(last.key, index);
+      this.siftDown(index);
+      this.siftUp(index);
+    }
+    return true;
+  }
+
+  /**
+   * 是否包含某项
+   */
+  has(key: K): boolean {
+    return this.positions.has(key);
+  }
+
+  /**
+   * 最早到期的时间，队列为空时返回 null
+   */
+  peekTime(): number | null {
+    return this.heap[0]?.at ?? null;
+  }
+
+  /**
+   * 取出最早到期且到期时间不晚于 now 的一项
+   * @returns 没有到期项时返回 undefined
+   */
+  popDue(now: number): K | undefined {
+    const top = this.heap[0];
+    if (!top || top.at > now) return undefined;
+    this.delete(top.key);
+    return top.key;
+  }
+
+  /**
+   * 清空队列
+   */
+  clear(): void {
+    this.heap = [];
+    this.positions.clear();
+  }
+
+  private siftUp(index: number): void {
+    const entry = this.heap[index]!;
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1;
+      const parent = this.heap[parentIndex]!;
+      if (parent.at <= entry.at) break;
+      this.heap[index] = parent;
+      this.positions.set(parent.key, index);
+      index = parentIndex;
+    }
+    this.heap[index] = entry;
+    this.positions.set(entry.key, index);
+  }
+
+  private siftDown(index: number): void {
+    const entry = this.heap[index]!;
+    const length = this.heap.length;
+    for (;;) {
+      const leftIndex = index * 2 + 1;
+      if (leftIndex >= length) break;
+      const rightIndex = leftIndex + 1;
+      let childIndex = leftIndex;
+      if (rightIndex < length && this.heap[rightIndex]!.at < this.heap[leftIndex]!.at) {
+        childIndex = rightIndex;
+      }
+      const child = this.heap[childIndex]!;
+      if (child.at >= entry.at) break;
+      this.heap[index] = child;
+      this.positions.set(child.key, index);
+      index = childIndex;
+    }
+    this.heap[index] = entry;
+    this.positions.set(entry.key, index);
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * 时序数据聚合查询
+ *
+ * 按固定宽度的时间桶（如 1m、1h、1d）聚合 ts_YYYYMMDD 分表中的原始数据，
+ * 桶对齐到 Unix 纪元（UTC），支持 avg / min / max / sum / count / first / last，
+ * 以及空桶填充（none / null / zero / previous / linear）
+ *
+ * 桶宽度为整小时（或整天）时，已汇总的分表改为读取小时（或天）汇总，
+ * 未汇总的分表仍读取原始数据，两部分按桶合并；首尾不完整的汇总桶读取原始数据，
+ * 保证与汇总前的结果一致（原始数据已删除时只能按整个汇总桶计算）
+ */
+
+import {
+  AggregateFunction,
+  GapFillMode,
+  TimeseriesAggregateQuerystring,
+  TimeseriesBucket,
+  TimeseriesBucketRow,
+  TimeseriesRollupResolution,
+  TimeseriesSeries
+} from './types';
+import {
+  aggregateTimeseriesData,
+  getRolledUpTimeseriesTables,
+  hasDroppedTimeseriesTables,
+  queryTimeseriesRollups,
+  TIMESERIES_ROLLUP_RESOLUTIONS
+} from './database';
+
+/** 单次查询最多返回的桶数（每个数据键） */
+export const MAX_AGGREGATE_BUCKETS = 10000;
+
+const AGGREGATE_FUNCTIONS: ReadonlySet<string> = new Set<AggregateFunction>(['avg', 'min', 'max', 'sum', 'count', 'first', 'last']);
+const GAP_FILL_MODES: ReadonlySet<string> = new Set<GapFillMode>(['none', 'null', 'zero', 'previous', 'linear']);
+
+const INTERVAL_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * 聚合查询参数错误
+ */
+export class TimeseriesQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeseriesQueryError';
+  }
+}
+
+/**
+ * 解析后的聚合查询参数
+ */
+export interface AggregateOptions {
+  dataKey?: string;
+  startTime: number;
+  endTime: number;
+  interval: number;            // 桶宽度（毫秒）
+  functions: AggregateFunction[];
+  fill: GapFillMode;
+}
+
+/**
+ * 解析桶宽度，如 30s、5m、1h、1d
+ * @returns 毫秒数，格式错误时返回 null
+ */
+export function parseInterval(text: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(text.trim());
+  if (!match) return null;
+  const value = parseInt(match[1]!, 10) * INTERVAL_UNITS[match[2]!]!;
+  return value > 0 ? value : null;
+}
+
+/**
+ * 解析并校验聚合查询参数
+ * startTime 必填，endTime 默认为当前时间，interval 默认 1h，fn 默认 avg，fill 默认 none
+ * @throws TimeseriesQueryError 参数无效或桶数超出上限
+ */
+export function parseAggregateOptions(query: TimeseriesAggregateQuerystring, now: number = Date.now()): AggregateOptions {
+  const startTime = query.startTime ? Number(query.startTime) : NaN;
+  if (!Number.isInteger(startTime)) {
+    throw new TimeseriesQueryError('startTime 为必填参数，必须为有效时间戳');
+  }
+
+  const endTime = query.endTime ? Number(query.endTime) : now;
+  if (!Number.isInteger(endTime)) {
+    throw new TimeseriesQueryError('endTime 必须为有效时间戳');
+  }
+  if (endTime < startTime) {
+    throw new TimeseriesQueryError('endTime 不能早于 startTime');
+  }
+
+  const interval = parseInterval(query.interval || '1h');
+  if (interval === null) {
+    throw new TimeseriesQueryError('interval 格式错误，应为数字加单位 s/m/h/d，如 1m、1h、1d');
+  }
+
+  const bucketCount = Math.floor(endTime / interval) - Math.floor(startTime / interval) + 1;
+  if (bucketCount > MAX_AGGREGATE_BUCKETS) {
+    throw new TimeseriesQueryError(`时间桶数量 ${bucketCount} 超过上限 ${MAX_AGGREGATE_BUCKETS}，请增大 interval 或缩小时间范围`);
+  }
+
+  const functions = [...new Set((query.fn || 'avg').split(',').map(f => f.trim()))];
+  const invalid = functions.find(f => !AGGREGATE_FUNCTIONS.has(f));
+  if (invalid !== undefined) {
+    throw new TimeseriesQueryError(`不支持的聚合函数: ${invalid}，可选 avg、min、max、sum、count、first、last`);
+  }
+
+  const fill = query.fill || 'none';
+  if (!GAP_FILL_MODES.has(fill)) {
+    throw new TimeseriesQueryError('fill 只能为 none、null、zero、previous 或 linear');
+  }
+
+  return {
+    dataKey: query.dataKey || undefined,
+    startTime,
+    endTime,
+    interval,
+    functions: functions as AggregateFunction[],
+    fill: fill as GapFillMode
+  };
+}
+
+/**
+ * 聚合查询设备时序数据
+ * @returns 每个数据键一个序列；指定 dataKey 且需要填充时，即使没有数据也返回该序列
+ */
+export function aggregateTimeseries(deviceUuid: string, options: AggregateOptions): TimeseriesSeries[] {
+  const { startTime, endTime, interval, dataKey } = options;
+  const first = options.functions.includes('first');
+  const last = options.functions.includes('last');
+
+  let rows: TimeseriesBucketRow[];
+  const resolution = getRollupResolution(interval);
+  const rolledUp = resolution ? getRolledUpTimeseriesTables() : new Set<string>();
+  if (resolution && rolledUp.size > 0) {
+    rows = aggregateWithRollups(deviceUuid, resolution, rolledUp, options);
+  } else {
+    rows = aggregateTimeseriesData(deviceUuid, startTime, endTime, interval, { dataKey, first, last });
+  }
+
+  // 按数据键分组（查询结果已按 data_key、bucket 排序）
+  const rowsByKey = new Map<string, TimeseriesBucketRow[]>();
+  if (options.dataKey && options.fill !== 'none') {
+    rowsByKey.set(options.dataKey, []);
+  }
+  for (const row of rows) {
+    let keyRows = rowsByKey.get(row.data_key);
+    if (!keyRows) {
+      keyRows = [];
+      rowsByKey.set(row.data_key, keyRows);
+    }
+    keyRows.push(row);
+  }
+
+  return [...rowsByKey].map(([dataKey, keyRows]) => ({
+    dataKey,
+    buckets: fillGaps(keyRows.map(row => toBucket(row, options.functions)), options)
+  }));
+}
+
+/**
+ * 结合汇总数据聚合：
+ *   - 完整落在范围内的汇总桶：已汇总的分表读取汇总数据，其余分表读取原始数据
+ *   - 首尾不完整的汇总桶：读取原始数据（包括已汇总的分表），原始数据已删除时读取整个汇总桶
+ * @returns 按 data_key、bucket 升序排列
+ */
+function aggregateWithRollups(
+  deviceUuid: string,
+  resolution: TimeseriesRollupResolution,
+  rolledUp: Set<string>,
+  options: AggregateOptions
+): TimeseriesBucketRow[] {
+  const { startTime, endTime, interval, dataKey } = options;
+  const first = options.functions.includes('first');
+  const last = options.functions.includes('last');
+  const rollupInterval = TIMESERIES_ROLLUP_RESOLUTIONS[resolution];
+
+  // 完整汇总桶覆盖的范围 [fullStart, fullEnd)
+  const fullStart = Math.ceil(startTime / rollupInterval) * rollupInterval;
+  const fullEnd = Math.floor((endTime + 1) / rollupInterval) * rollupInterval;
+
+  const rows: TimeseriesBucketRow[] = [];
+  if (fullEnd > fullStart) {
+    rows.push(...queryTimeseriesRollups(deviceUuid, resolution, fullStart, fullEnd - 1, dataKey));
+    rows.push(...aggregateTimeseriesData(deviceUuid, fullStart, fullEnd - 1, interval, { dataKey, first, last, excludeTables: rolledUp }));
+  }
+
+  const edges: Array<[number, number]> = [];
+  if (startTime < fullStart) {
+    edges.push([startTime, Math.min(fullStart, endTime + 1) - 1]);
+  }
+  if (fullEnd >= fullStart && fullEnd <= endTime) {
+    edges.push([fullEnd, endTime]);
+  }
+  for (const [edgeStart, edgeEnd] of edges) {
+    if (hasDroppedTimeseriesTables(edgeStart, edgeEnd, rolledUp)) {
+      const bucket = edgeStart - edgeStart % rollupInterval;
+      rows.push(...queryTimeseriesRollups(deviceUuid, resolution, bucket, bucket + rollupInterval - 1, dataKey));
+    } else {
+      rows.push(...aggregateTimeseriesData(deviceUuid, edgeStart, edgeEnd, interval, { dataKey, first, last }));
+    }
+  }
+
+  return mergeBucketRows(rows, interval);
+}
+
+/**
+ * 可用于该桶宽度的汇总粒度：整天用天汇总，整小时用小时汇总，否则只能读原始数据
+ */
+function getRollupResolution(interval: number): TimeseriesRollupResolution | null {
+  if (interval % TIMESERIES_ROLLUP_RESOLUTIONS.day === 0) return 'day';
+  if (interval % TIMESERIES_ROLLUP_RESOLUTIONS.hour === 0) return 'hour';
+  return null;
+}
+
+/**
+ * 将汇总行和原始聚合行合并到 interval 宽度的桶中
+ * @returns 按 data_key、bucket 升序排列
+ */
+function mergeBucketRows(rows: TimeseriesBucketRow[], interval: number): TimeseriesBucketRow[] {
+  const merged = new Map<string, TimeseriesBucketRow>();
+
+  for (const row of rows) {
+    const bucket = row.bucket - row.bucket % interval;
+    const key = `${row.data_key}\0${bucket}`;
+    const target = merged.get(key);
+    if (!target) {
+      merged.set(key, { ...row, bucket });
+      continue;
+    }
+
+    target.count += row.count;
+    target.sum += row.sum;
+    target.min = Math.min(target.min, row.min);
+    target.max = Math.max(target.max, row.max);
+    if (row.first_ts !== undefined && (target.first_ts === undefined || row.first_ts < target.first_ts)) {
+      target.first = row.first;
+      target.first_ts = row.first_ts;
+    }
+    if (row.last_ts !== undefined && (target.last_ts === undefined || row.last_ts >= target.last_ts)) {
+      target.last = row.last;
+      target.last_ts = row.last_ts;
+    }
+  }
+
+  return [...merged.values()].sort((a, b) =>
+    a.data_key < b.data_key ? -1 : a.data_key > b.data_key ? 1 : a.bucket - b.bucket
+  );
+}
+
+/**
+ * 计算单个桶的聚合值
+ */
+function toBucket(row: TimeseriesBucketRow, functions: AggregateFunction[]): TimeseriesBucket {
+  const bucket: TimeseriesBucket = { ts: row.bucket };
+  for (const fn of functions) {
+    switch (fn) {
+      case 'avg':
+        bucket.avg = row.sum / row.count;
+        break;
+      case 'first':
+      case 'last':
+        bucket[fn] = row[fn] ?? null;
+        break;
+      default:
+        bucket[fn] = row[fn];
+    }
+  }
+  return bucket;
+}
+
+/**
+ * 按填充方式补齐 [startTime, endTime] 内的空桶
+ * count 在空桶中始终为 0
+ */
+function fillGaps(buckets: TimeseriesBucket[], options: AggregateOptions): TimeseriesBucket[] {
+  if (options.fill === 'none') return buckets;
+
+  const { interval, functions, fill } = options;
+  const first = Math.floor(options.startTime / interval) * interval;
+  const last = Math.floor(options.endTime / interval) * interval;
+  const existing = new Map(buckets.map(b => [b.ts, b]));
+
+  const result: TimeseriesBucket[] = [];
+  let previous: TimeseriesBucket | undefined;
+  let nextIndex = 0;
+
+  for (let ts = first; ts <= last; ts += interval) {
+    const bucket = existing.get(ts);
+    if (bucket) {
+      result.push(bucket);
+      previous = bucket;
+      nextIndex++;
+      continue;
+    }
+
+    const next = buckets[nextIndex];
+    const filled: TimeseriesBucket = { ts };
+    for (const fn of functions) {
+      if (fn === 'count') {
+        filled.count = 0;
+        continue;
+      }
+      switch (fill) {
+        case 'zero':
+          filled[fn] = 0;
+          break;
+        case 'previous':
+          filled[fn] = previous?.[fn] ?? null;
+          break;
+        case 'linear':
+          filled[fn] = interpolate(previous, next, fn, ts);
+          break;
+        default:
+          filled[fn] = null;
+      }
+    }
+    result.push(filled);
+  }
+
+  return result;
+}
+
+/**
+ * 在前后两个非空桶之间线性插值，缺少任一侧时返回 null
+ */
+function interpolate(
+  previous: TimeseriesBucket | undefined,
+  next: TimeseriesBucket | undefined,
+  fn: AggregateFunction,
+  ts: number
+): number | null {
+  const from = previous?.[fn];
+  const to = next?.[fn];
+  if (from === undefined || from === null || to === undefined || to === null) return null;
+  return from + (to - from) * (ts - previous!.ts) / (next!.ts - previous!.ts);
+}
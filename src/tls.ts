@@ -0,0 +1,123 @@
+/**
+ * TLS 模块
+ *
+ * 配置 TLS_CERT 和 TLS_KEY 后：
+ *   - 启动 MQTTS 监听（MQTTS_PORT，默认 8883）
+ *   - HTTPS_ENABLED=true 时，设备 HTTP 接口、Web 用户接口和 MQTT WebSocket 改用 HTTPS / WSS
+ *   - MQTT_CLIENT_CERT 为 optional / required 时，MQTTS 连接请求客户端证书，
+ *     证书需由 TLS_CA 签发且 CN 为设备 uuid，通过证书认证的设备不再校验 MQTT 密码
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ServerOptions as HttpsServerOptions } from 'https';
+import { TlsOptions, TLSSocket } from 'tls';
+import { AedesClient } from './types';
+import config from './config';
+import { logger } from './logger';
+
+/**
+ * 客户端证书信息
+ */
+export interface ClientCertificate {
+  authorized: boolean;          // 证书是否由 TLS_CA 签发且在有效期内
+  commonName: string | null;    // 证书主题 CN
+}
+
+interface TlsFiles {
+  cert: Buffer;
+  key: Buffer;
+  ca?: Buffer;
+}
+
+let tlsFiles: TlsFiles | null | undefined;
+
+/**
+ * 是否配置了 TLS 证书
+ */
+export function isTlsEnabled(): boolean {
+  return config.tls.cert !== '' && config.tls.key !== '';
+}
+
+/**
+ * 读取 TLS 证书文件（只读取一次）
+ * @throws Error 文件不存在或无法读取
+ */
+function loadTlsFiles(): TlsFiles | null {
+  if (tlsFiles !== undefined) return tlsFiles;
+  if (!isTlsEnabled()) {
+    tlsFiles = null;
+    return null;
+  }
+
+  const read = (file: string): Buffer => {
+    const fullPath = path.resolve(process.cwd(), file);
+    try {
+      return fs.readFileSync(fullPath);
+    } catch (error) {
+      throw new Error(`读取 TLS 文件失败: ${fullPath} (${(error as Error).message})`);
+    }
+  };
+
+  tlsFiles = {
+    cert: read(config.tls.cert),
+    key: read(config.tls.key),
+    ca: config.tls.ca ? read(config.tls.ca) : undefined
+  };
+  return tlsFiles;
+}
+
+/**
+ * HTTPS 服务选项（设备 HTTP 接口、Web 用户接口、MQTT WebSocket 共用）
+ * @returns 未启用 HTTPS 时返回 null
+ */
+export function getHttpsOptions(): HttpsServerOptions | null {
+  if (!config.tls.https) return null;
+
+  const files = loadTlsFiles();
+  if (!files) {
+    logger.warn('HTTPS_ENABLED 已开启，但未配置 TLS_CERT 和 TLS_KEY，仍使用 HTTP');
+    return null;
+  }
+  return { cert: files.cert, key: files.key };
+}
+
+/**
+ * MQTTS 服务选项
+ * @returns 未配置 TLS 证书时返回 null
+ */
+export function getMqttsServerOptions(): TlsOptions | null {
+  const files = loadTlsFiles();
+  if (!files) return null;
+
+  const options: TlsOptions = { cert: files.cert, key: files.key };
+  if (config.tls.clientCert === 'off') return options;
+
+  if (!files.ca) {
+    logger.error('MQTT_CLIENT_CERT 需要配置 TLS_CA，已禁用客户端证书认证');
+    return options;
+  }
+
+  options.ca = files.ca;
+  options.requestCert = true;
+  options.rejectUnauthorized = config.tls.clientCert === 'required';
+  return options;
+}
+
+/**
+ * 获取 MQTTS 连接出示的客户端证书
+ * @returns 非 TLS 连接或未出示证书时返回 null
+ */
+export function getClientCertificate(client: AedesClient): ClientCertificate | null {
+  const socket = client.conn;
+  if (!(socket instanceof TLSSocket)) return null;
+
+  const certificate = socket.getPeerCertificate();
+  if (!certificate || Object.keys(certificate).length === 0) return null;
+
+  const commonName = certificate.subject?.CN;
+  return {
+    authorized: socket.authorized,
+    commonName: typeof commonName === 'string' ? commonName : null
+  };
+}
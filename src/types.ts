@@ -12,6 +12,8 @@ export interface Device {
   client_id: string | null;
   username: string | null;
   password: string | null;
+  limit_profile_id: number | null;  // 分配给设备的发布限制配置
+  disabled: number;                 // 1 表示已停用
   created_at: string;
   updated_at: string;
 }
@@ -22,9 +24,23 @@ export interface Device {
 export interface Group {
   id: number;
   name: string;
+  limit_profile_id: number | null;  // 分配给组的发布限制配置
+  owner_device_id: number | null;   // 组所有者设备，管理员创建的组可以没有所有者
+  join_policy: GroupJoinPolicy;
   created_at: string;
 }
 
+/**
+ * 设备加入组的方式
+ * open: 自由加入，invite: 需要邀请码，approval: 需要管理员审批（持有邀请码可直接加入）
+ */
+export type GroupJoinPolicy = 'open' | 'invite' | 'approval';
+
+/**
+ * 组成员状态，pending 为等待审批的加入申请
+ */
+export type GroupMemberStatus = 'active' | 'pending';
+
 /**
  * 设备-组关联接口
  */
@@ -32,6 +48,18 @@ export interface DeviceGroup {
   id: number;
   device_id: number;
   group_id: number;
+  status: GroupMemberStatus;
+  created_at: string;
+}
+
+/**
+ * 组邀请码
+ */
+export interface GroupInvite {
+  id: number;
+  group_id: number;
+  code: string;
+  expires_at: number;   // 过期时间（毫秒时间戳）
   created_at: string;
 }
 
@@ -52,17 +80,57 @@ export interface DeviceStatus {
  */
 export interface ForwardMessage {
   fromDevice: string;
+  type?: ForwardMessageType; // 消息类型，普通消息不带此字段
+  msgId?: string;            // 发送方指定的消息 ID，用于送达回执
   fromGroup?: string;
   data: unknown;
 }
 
+/**
+ * 设备上下线事件，发布到设备所在的每个组
+ */
+export interface PresenceMessage {
+  type: 'presence';
+  fromGroup: string;   // 接收事件的组
+  device: string;      // 上下线设备的 clientId
+  online: boolean;
+  mode: DeviceMode;
+  ts: number;
+}
+
+/**
+ * HTTP 设备可获取的消息（转发消息、上下线事件或设备影子差异）
+ */
+export type InboxMessage = ForwardMessage | PresenceMessage | ShadowDeltaMessage;
+
+/**
+ * 系统消息类型
+ * receipt: 送达回执
+ */
+export type ForwardMessageType = 'receipt';
+
+/**
+ * MQTT 服务质量等级
+ */
+export type QoS = 0 | 1 | 2;
+
+/**
+ * 消息投递选项
+ */
+export interface DeliveryOptions {
+  qos?: QoS;                 // 投递 QoS（受接收方订阅 QoS 限制），默认 0
+  msgId?: string;            // 消息 ID，目标设备确认收到后向发送方回执
+  type?: ForwardMessageType; // 系统消息类型
+}
+
 /**
  * Bridge 远程 Broker 配置
  */
 export interface BridgeRemoteConfig {
   id: string;        // 远程 broker 的唯一标识
-  url: string;       // 远程 broker 的 MQTT 地址，如 mqtt://192.168.1.100:1883
+  url: string;       // 远程 broker 的 MQTT 地址，如 mqtt://192.168.1.100:1883、mqtts://broker.example.com:8883
   token: string;     // 连接远程 broker 使用的 bridge token
+  ca?: string;       // 固定信任的 CA 证书（PEM），仅用于 mqtts:// 和 wss://
 }
 
 /**
@@ -73,6 +141,7 @@ export interface BridgeRemote {
   broker_id: string;  // 远程 broker 的唯一标识
   url: string;        // 远程 broker 的 MQTT 地址
   token: string;      // 连接远程 broker 的 bridge token
+  ca_cert: string | null;  // 固定信任的 CA 证书（PEM）
   enabled: number;    // 是否启用 (0/1)
   created_at: string;
   updated_at: string;
@@ -85,6 +154,9 @@ export interface BridgeMessage {
   fromBroker: string;   // 来源 broker ID
   fromDevice: string;   // 来源设备 clientId
   toDevice: string;     // 目标设备 clientId（本地 clientId，不含 broker 前缀）
+  type?: ForwardMessageType; // 系统消息类型（如送达回执）
+  msgId?: string;       // 消息 ID（送达回执）
+  qos?: QoS;            // 发送方 QoS，远程 Broker 按此 QoS 投递
   data: unknown;
 }
 
@@ -95,6 +167,7 @@ export interface BridgeGroupMessage {
   fromBroker: string;   // 来源 broker ID
   fromDevice: string;   // 来源设备 clientId
   toGroup: string;      // 目标组名（本地组名，不含 broker 前缀）
+  qos?: QoS;            // 发送方 QoS，远程 Broker 按此 QoS 投递
   data: unknown;
 }
 
@@ -137,16 +210,146 @@ export interface BridgeShareDataMessage {
 }
 
 /**
- * 设备配置接口
+ * 设备配置接口（设备影子的存储记录）
  */
 export interface DeviceConfig {
   id: number;
   device_id: number;
-  config: string;          // JSON 字符串
+  config: string;          // JSON 字符串，影子的 desired 状态
+  reported: string;        // JSON 字符串，影子的 reported 状态
+  metadata: string;        // JSON 字符串，ShadowMetadata
+  version: number;         // 影子文档版本，每次更新递增
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 设备影子状态（键值对）
+ */
+export type ShadowState = Record<string, unknown>;
+
+/**
+ * 影子状态中单个键的元数据
+ */
+export interface ShadowKeyMetadata {
+  version: number;         // 该键的版本，每次值变化递增
+  timestamp: number;       // 最后修改时间戳（毫秒）
+}
+
+/**
+ * 影子元数据
+ */
+export interface ShadowMetadata {
+  desired: Record<string, ShadowKeyMetadata>;
+  reported: Record<string, ShadowKeyMetadata>;
+}
+
+/**
+ * 设备影子文档
+ */
+export interface ShadowDocument {
+  state: {
+    desired: ShadowState;
+    reported: ShadowState;
+    delta: ShadowState;    // desired 中与 reported 不一致的键
+  };
+  metadata: ShadowMetadata;
+  version: number;
+  timestamp: number;
+  clientToken?: string;    // 原样返回请求中的 clientToken
+}
+
+/**
+ * 设备影子更新请求
+ * 键值为 null 表示删除该键，desired / reported 为 null 表示清空该部分
+ */
+export interface ShadowUpdateRequest {
+  state?: {
+    desired?: ShadowState | null;
+    reported?: ShadowState | null;
+  };
+  version?: number;        // 期望的当前文档版本，不一致时拒绝更新
+  clientToken?: string;
+}
+
+/**
+ * 设备影子更新结果
+ */
+export interface ShadowUpdateResult {
+  document: ShadowDocument;
+  pushed: boolean;         // desired 变化后差异是否已推送给在线设备
+}
+
+/**
+ * 设备影子差异消息，desired 变化后推送给设备
+ */
+export interface ShadowDeltaMessage {
+  type: 'shadowDelta';
+  state: ShadowState;
+  metadata: Record<string, ShadowKeyMetadata>;
+  version: number;
+  timestamp: number;
+}
+
+/**
+ * 超出发布限制时的处理方式
+ * drop: 静默丢弃，reject: 丢弃并通知设备，disconnect: 断开连接
+ */
+export type LimitAction = 'drop' | 'reject' | 'disconnect';
+
+/**
+ * 发布限制配置（数据库行），可分配给设备或组
+ */
+export interface LimitProfile {
+  id: number;
+  name: string;
+  rate: number;            // 每个周期补充的令牌数（消息数）
+  interval: number;        // 补充周期（毫秒）
+  burst: number;           // 令牌桶容量，即允许的突发消息数
+  max_length: number;      // 单条消息最大长度
+  action: LimitAction;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * 设备实际生效的发布限制
+ * source: device 设备自身配置，group 所在组中最宽松的配置，default 全局默认值
+ */
+export interface EffectiveLimit {
+  profile: string | null;  // 配置名称，默认值为 null
+  source: 'device' | 'group' | 'default';
+  rate: number;
+  interval: number;
+  burst: number;
+  maxLength: number;
+  action: LimitAction;
+}
+
+/**
+ * 发布限制检查结果
+ */
+export type LimitCheckResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      action: LimitAction;
+      code: 1004 | 1005;   // 1004 消息过长，1005 发布频率过高
+      detail: string;
+    };
+
+/**
+ * 发布被拒绝时发给设备的通知（action 为 reject 时）
+ */
+export interface LimitRejectMessage {
+  type: 'limit';
+  message: 1004 | 1005;
+  detail: string;
+  topic: string;           // 被拒绝消息的 topic
+  msgId?: string;          // 被拒绝消息的 msgId
+  ts: number;
+}
+
 /**
  * 时序数据接口
  */
@@ -159,50 +362,204 @@ export interface TimeseriesData {
   created_at?: string;
 }
 
+/**
+ * 时序数据聚合函数
+ */
+export type AggregateFunction = 'avg' | 'min' | 'max' | 'sum' | 'count' | 'first' | 'last';
+
+/**
+ * 空桶填充方式
+ * none: 不返回空桶，null: 填 null，zero: 填 0，previous: 沿用上一个非空桶，linear: 前后非空桶线性插值
+ */
+export type GapFillMode = 'none' | 'null' | 'zero' | 'previous' | 'linear';
+
+/**
+ * 单个时间桶的聚合结果（数据库查询行）
+ */
+export interface TimeseriesBucketRow {
+  device_uuid: string;
+  data_key: string;
+  bucket: number;          // 桶起始时间戳（毫秒）
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  first?: number;          // 桶内最早的值（请求 first 时）
+  first_ts?: number;       // 最早的值的时间戳
+  last?: number;           // 桶内最晚的值（请求 last 时）
+  last_ts?: number;        // 最晚的值的时间戳
+}
+
+/**
+ * 时序数据汇总粒度
+ */
+export type TimeseriesRollupResolution = 'hour' | 'day';
+
+/**
+ * 聚合结果中的一个时间桶，各聚合函数的值以函数名为键
+ */
+export type TimeseriesBucket = { ts: number } & Partial<Record<AggregateFunction, number | null>>;
+
+/**
+ * 单个数据键的聚合序列
+ */
+export interface TimeseriesSeries {
+  dataKey: string;
+  buckets: TimeseriesBucket[];
+}
+
+/**
+ * MQTT 设备离线消息记录（数据库行）
+ */
+export interface OfflineMessageRecord {
+  id: number;
+  device_id: number;
+  payload: string;         // 序列化后的 ForwardMessage
+  qos: QoS;                // 补发时使用的 QoS
+  created_at: number;      // 入队时间戳（毫秒）
+  expires_at: number;      // 过期时间戳（毫秒）
+}
+
 /**
  * 暂存消息接口
  */
 export interface PendingMessage {
-  message: ForwardMessage;
+  seq: number;          // 设备内递增的序号（确认模式的游标）
+  message: InboxMessage;
   timestamp: number;
 }
 
+/**
+ * 带序号的暂存消息（GET /device/r 确认模式返回）
+ */
+export type SequencedInboxMessage = InboxMessage & { seq: number };
+
 /**
  * 设备连接模式
  */
 export type DeviceMode = 'mqtt' | 'http';
 
+/**
+ * 消息投递路径
+ * mqtt: 发布到本地 MQTT topic；http: 暂存到 HTTP 设备待取队列；
+ * queued: MQTT 设备离线，写入离线队列；bridge: 转发到远程 Broker；unavailable: 远程 Broker 未连接，消息丢弃
+ */
+export type DeliveryRoute = 'mqtt' | 'http' | 'queued' | 'bridge' | 'unavailable';
+
 /**
  * 定时任务执行方式
  */
-export type ScheduleMode = 'scheduled' | 'countdown' | 'recurring';
+export type ScheduleMode = 'scheduled' | 'countdown' | 'recurring' | 'cron' | 'solar';
+
+/**
+ * 太阳事件：日出、日落、民用晨光始、民用昏影终
+ */
+export type SolarEvent = 'sunrise' | 'sunset' | 'dawn' | 'dusk';
+
+/**
+ * 太阳事件定时参数（solar 模式）
+ */
+export interface SolarSchedule {
+  latitude: number;        // 纬度，北纬为正
+  longitude: number;       // 经度，东经为正
+  event: SolarEvent;       // 太阳事件
+  offset: number;          // 相对事件的偏移分钟数，负数为提前
+}
+
+/**
+ * 定时任务目标类型：单个设备或组
+ */
+export type ScheduleTargetType = 'device' | 'group';
+
+/**
+ * 错过执行时间的任务补偿策略（Broker 停机期间到期的任务）
+ *   once - 启动后补执行一次
+ *   skip - 跳过错过的执行（一次性任务直接删除，循环任务顺延到下一个周期）
+ *   all  - 补执行每一次错过的执行（受 maxCatchUpRuns 限制）
+ */
+export type ScheduleCatchUpPolicy = 'once' | 'skip' | 'all';
 
 /**
  * 定时任务接口
  */
 export interface ScheduledTask {
   id: string;
-  deviceId: string;        // 目标设备的 clientId
+  ownerDeviceId: number | null;  // 创建者设备 ID（devices.id），null 为旧版本创建的无主任务，仅可通过用户接口管理
+  targetType: ScheduleTargetType; // 目标类型
+  deviceId: string;        // 目标设备的 clientId 或目标组名，支持 brokerId:xxx 远程地址
   command: unknown;        // 要执行的指令数据
   mode: ScheduleMode;      // 执行方式
   executeAt: number;       // 执行时间（时间戳，毫秒）
   interval?: number;       // 循环执行的间隔时间（毫秒），仅 recurring 模式使用
+  cron?: string;           // cron 表达式，仅 cron 模式使用
+  timezone?: string;       // cron 表达式使用的 IANA 时区，仅 cron 模式使用
+  solar?: SolarSchedule;   // 太阳事件参数，仅 solar 模式使用
   createdAt: number;       // 创建时间
   lastExecutedAt?: number; // 最后执行时间
   enabled: boolean;        // 是否启用
+  retryWindow?: number;    // 目标设备离线时的重试时长（毫秒），未设置时不重试
+}
+
+/**
+ * 定时任务数据库记录
+ */
+export interface ScheduledTaskRecord {
+  id: string;
+  owner_device_id: number | null;
+  target_type: ScheduleTargetType;
+  device_id: string;            // 目标设备 clientId 或组名
+  command: string;              // JSON 字符串
+  mode: ScheduleMode;
+  execute_at: number;
+  interval: number | null;
+  cron: string | null;
+  timezone: string | null;
+  solar: string | null;         // 太阳事件参数 JSON 字符串
+  created_at: number;
+  last_executed_at: number | null;
+  enabled: number;              // 0/1
+  retry_window: number | null;  // 离线重试时长（毫秒）
+}
+
+/**
+ * 定时任务执行记录
+ */
+export interface ScheduleRunRecord {
+  id: number;
+  task_id: string;
+  owner_device_id: number | null;
+  target_type: ScheduleTargetType;
+  target: string;                  // 目标设备 clientId 或组名
+  fired_at: number;                // 任务触发时间
+  executed_at: number;             // 投递（或放弃）时间，重试时晚于 fired_at
+  attempts: number;                // 投递尝试次数
+  target_online: number | null;    // 投递时目标是否在线（0/1），组任务为 null
+  route: DeliveryRoute | null;     // 投递方式，未投递时为 null
+  error: string | null;            // 失败原因
 }
 
+/**
+ * 太阳事件定时参数请求体，offset 默认为 0
+ */
+export type SolarScheduleBody = Omit<SolarSchedule, 'offset'> & { offset?: number };
+
 /**
  * 创建定时任务请求体
  */
 export interface CreateScheduleBody {
   authKey: string;         // 发起者的 authKey
-  toDevice: string;        // 目标设备的 clientId
+  toDevice?: string;       // 目标设备的 clientId（与 toGroup 二选一）
+  toGroup?: string;        // 目标组名（与 toDevice 二选一）
   command: unknown;        // 要执行的指令
-  mode: ScheduleMode;      // 执行方式: scheduled | countdown | recurring
+  mode: ScheduleMode;      // 执行方式: scheduled | countdown | recurring | cron | solar
   executeAt?: number;      // 执行时间戳（scheduled 模式必填）
   countdown?: number;      // 倒计时秒数（countdown 模式必填）
   interval?: number;       // 循环间隔秒数（recurring 模式必填）
+  cron?: string;           // cron 表达式（cron 模式必填）
+  timezone?: string;       // cron 表达式的 IANA 时区（可选）
+  solar?: SolarScheduleBody; // 太阳事件参数（solar 模式必填）
+  retryWindow?: number;    // 目标设备离线时的重试时长秒数（可选）
+  preview?: number;        // 响应中返回的后续执行时间个数（可选）
 }
 
 /**
@@ -216,7 +573,12 @@ export interface UpdateScheduleBody {
   executeAt?: number;       // 执行时间戳（可选）
   countdown?: number;       // 倒计时秒数（可选）
   interval?: number;        // 循环间隔秒数（可选）
+  cron?: string;            // cron 表达式（可选）
+  timezone?: string;        // cron 表达式的 IANA 时区（可选）
+  solar?: SolarScheduleBody; // 太阳事件参数（可选）
   enabled?: boolean;        // 是否启用（可选）
+  retryWindow?: number;     // 目标设备离线时的重试时长秒数，0 为不重试（可选）
+  preview?: number;         // 响应中返回的后续执行时间个数（可选）
 }
 
 /**
@@ -234,6 +596,22 @@ export interface QueryScheduleQuery {
   authKey: string;
 }
 
+/**
+ * 查询定时任务执行记录请求参数
+ */
+export interface QueryScheduleRunsQuery {
+  authKey: string;
+  limit?: string;
+}
+
+/**
+ * 用户接口查询定时任务执行记录请求参数
+ */
+export interface UserScheduleRunsQuery {
+  taskId?: string;
+  limit?: string;
+}
+
 /**
  * API响应接口
  */
@@ -264,6 +642,8 @@ export interface DevicePublishBody {
   authKey: string;
   toDevice?: string;
   toGroup?: string;
+  msgId?: string;          // 消息 ID，目标设备收到后向发送方回执（仅设备消息）
+  qos?: number;            // 投递 QoS（0/1/2），默认 0
   data: unknown;
 }
 
@@ -272,6 +652,16 @@ export interface DevicePublishBody {
  */
 export interface DeviceSubscribeQuery {
   authKey: string;
+  wait?: string;      // 长轮询：没有暂存消息时最多等待的秒数（仅 GET /device/r）
+  cursor?: string;    // 确认模式：只返回序号大于 cursor 的未确认消息，不清除（仅 GET /device/r）
+}
+
+/**
+ * 确认已收到暂存消息请求体
+ */
+export interface DeviceAckBody {
+  authKey: string;
+  seq: number;        // 确认序号不大于 seq 的全部消息
 }
 
 /**
@@ -280,6 +670,7 @@ export interface DeviceSubscribeQuery {
 export interface DeviceGroupBody {
   authKey: string;
   groupName: string;
+  inviteCode?: string;
 }
 
 /**
@@ -289,6 +680,60 @@ export interface DeviceGroupsQuery {
   authKey: string;
 }
 
+/**
+ * 组参数
+ */
+export interface GroupParams {
+  name: string;
+}
+
+/**
+ * 创建组请求体
+ */
+export interface CreateGroupBody {
+  name?: string;
+  joinPolicy?: GroupJoinPolicy;
+  owner?: string;        // 所有者设备 uuid
+}
+
+/**
+ * 修改组请求体
+ */
+export interface UpdateGroupBody {
+  joinPolicy?: GroupJoinPolicy;
+  owner?: string | null;  // 所有者设备 uuid，null 表示取消所有者
+}
+
+/**
+ * 生成组邀请码请求体
+ */
+export interface CreateGroupInviteBody {
+  expiresIn?: number;    // 有效期（毫秒）
+}
+
+/**
+ * 组邀请码参数
+ */
+export interface GroupInviteParams {
+  name: string;
+  code: string;
+}
+
+/**
+ * 添加组成员请求体
+ */
+export interface GroupMemberBody {
+  uuid?: string;
+}
+
+/**
+ * 组成员参数
+ */
+export interface GroupMemberParams {
+  name: string;
+  uuid: string;
+}
+
 /**
  * 用户端创建设备请求体
  */
@@ -308,8 +753,9 @@ export interface DeviceParams {
  */
 export interface AddBridgeRemoteBody {
   brokerId: string;     // 远程 broker ID
-  url: string;          // mqtt://host:port
+  url: string;          // mqtt://host:port 或 mqtts://host:port
   token: string;        // bridge token
+  ca?: string;          // 可选：固定信任的 CA 证书（PEM）
   sharedDevices?: Array<{ deviceUuid: string; permissions?: string }>;  // 可选：同时共享本地设备
 }
 
@@ -319,6 +765,7 @@ export interface AddBridgeRemoteBody {
 export interface UpdateBridgeRemoteBody {
   url?: string;
   token?: string;
+  ca?: string | null;   // null 表示取消固定 CA
   enabled?: boolean;
 }
 
@@ -346,10 +793,67 @@ export interface SharedDeviceParams {
 }
 
 /**
- * 设备配置请求体
+ * 设备配置请求体（设置设备影子的 desired 状态）
  */
 export interface DeviceConfigBody {
   config: unknown;         // JSON 配置数据
+  version?: number;        // 期望的当前影子版本，不一致时拒绝更新
+}
+
+/**
+ * HTTP 设备影子查询参数
+ */
+export interface DeviceShadowQuery {
+  authKey: string;
+}
+
+/**
+ * HTTP 设备影子更新请求体
+ */
+export interface DeviceShadowBody extends ShadowUpdateRequest {
+  authKey: string;
+}
+
+/**
+ * 发布限制配置请求体
+ */
+export interface LimitProfileBody {
+  name?: string;
+  rate?: number;
+  interval?: number;
+  burst?: number;
+  maxLength?: number;
+  action?: LimitAction;
+}
+
+/**
+ * 发布限制配置路由参数
+ */
+export interface LimitProfileParams {
+  name: string;
+}
+
+/**
+ * 定时任务路由参数
+ */
+export interface ScheduleParams {
+  taskId: string;
+}
+
+/**
+ * 发布限制分配到设备的路由参数
+ */
+export interface LimitDeviceParams {
+  name: string;
+  uuid: string;
+}
+
+/**
+ * 发布限制分配到组的路由参数
+ */
+export interface LimitGroupParams {
+  name: string;
+  group: string;
 }
 
 /**
@@ -367,38 +871,138 @@ export interface TimeseriesQuerystring {
   pageSize?: string;
 }
 
+/**
+ * 时序数据聚合查询参数
+ */
+export interface TimeseriesAggregateQuerystring {
+  dataKey?: string;
+  startTime?: string;
+  endTime?: string;
+  interval?: string;       // 桶宽度，如 30s、1m、1h、1d
+  fn?: string;             // 聚合函数，逗号分隔，如 avg,max
+  fill?: string;           // 空桶填充方式
+}
+
 /**
  * 配置接口
  */
 export interface Config {
   mqtt: {
-    port: number;
+    port: number;               // MQTT 端口，0 表示不启用（仅使用 MQTTS）
     host: string;
+    wsPort: number;             // MQTT over WebSocket 端口，0 表示不启用
+    wsPath: string;             // MQTT over WebSocket 路径
   };
   http: {
     port: number;
     host: string;
+    longPollMaxWait: number;    // 长轮询最长等待时间（秒）
+    sseHeartbeat: number;       // SSE 心跳间隔（毫秒）
+  };
+  web: {
+    port: number;               // Web 用户接口端口
+    host: string;
+  };
+  tls: {
+    cert: string;               // 服务端证书文件路径（PEM），与 key 同时配置后启用 TLS
+    key: string;                // 服务端私钥文件路径（PEM）
+    ca: string;                 // 签发设备客户端证书的 CA 文件路径（PEM）
+    mqttsPort: number;          // MQTTS 端口，0 表示不启用
+    https: boolean;             // 设备 HTTP 接口、Web 用户接口和 MQTT WebSocket 是否改用 HTTPS / WSS
+    clientCert: ClientCertMode; // MQTTS 设备客户端证书认证方式
+  };
+  public: {
+    host: string;               // 设备可访问的 Broker 地址，为空时使用请求的 Host 头
+    hostFromRequest: boolean;   // 优先使用请求的 Host 头作为 Broker 地址
+    mqttPort: number;           // 对外 MQTT 端口，0 表示与 mqtt.port 相同
+    mqttsPort: number;          // 对外 MQTTS 端口，0 表示与 tls.mqttsPort 相同
+    wsPort: number;             // 对外 MQTT WebSocket 端口，0 表示与 mqtt.wsPort 相同
   };
   message: {
     maxLength: number;
     publishRateLimit: number;
     expireTime: number;
   };
+  groups: {
+    defaultJoinPolicy: GroupJoinPolicy;    // 设备自行创建的组的加入方式
+    inviteTtl: number;                     // 邀请码默认有效期（毫秒）
+  };
   timeseries: {
     retentionDays: number;
+    rollupHourlyRetentionDays: number;   // 小时汇总保留天数
+    rollupDailyRetentionDays: number;    // 天汇总保留天数
   };
   cache: {
     cleanupInterval: number;
   };
+  offlineQueue: {
+    enabled: boolean;        // 是否为离线 MQTT 设备保存消息
+    maxDepth: number;        // 每个设备最多保存的消息数
+    ttl: number;             // 消息保存时间（毫秒）
+  };
   database: {
     filename: string;
   };
+  scheduler: {
+    catchUpPolicy: ScheduleCatchUpPolicy;   // 错过执行时间的补偿策略
+    maxCatchUpRuns: number;                 // all 策略下单个任务最多补执行次数
+    defaultTimezone: string;                // cron 任务默认时区
+    retryInterval: number;                  // 目标离线时的重试间隔（毫秒）
+    maxRetryWindow: number;                 // 任务可设置的最长重试时长（秒）
+    runRetentionDays: number;               // 执行记录保留天数
+  };
   bridge: {
     enabled: boolean;           // 是否启用 bridge
     brokerId: string;           // 本 broker 的唯一标识
     token: string;              // 本 broker 接受 bridge 连接的 token
     reconnectInterval: number;  // 重连间隔（毫秒）
   };
+  control: {
+    port: number;               // 控制通道端口（仅监听 127.0.0.1）
+    token: string;              // 控制通道共享密钥，为空时不启用
+    timeout: number;            // Web 进程请求超时（毫秒）
+  };
+}
+
+/**
+ * MQTTS 设备客户端证书认证方式
+ *   off - 不请求客户端证书
+ *   optional - 设备可使用证书代替密码认证，未提供证书时使用密码认证
+ *   required - 必须提供有效的客户端证书，否则 TLS 握手失败
+ */
+export type ClientCertMode = 'off' | 'optional' | 'required';
+
+/**
+ * 设备 MQTT 接入方式：tcp (mqtt://)、tls (mqtts://)、ws (ws:// 或 wss://)
+ */
+export type MqttTransport = 'tcp' | 'tls' | 'ws';
+
+/**
+ * MQTT 接入地址（GET /device/auth 返回）
+ */
+export interface MqttTransportInfo {
+  url: string;          // 完整连接地址，如 mqtts://broker.example.com:8883
+  protocol: 'mqtt' | 'mqtts' | 'ws' | 'wss';
+  host: string;
+  port: number;
+  path?: string;        // 仅 ws
+}
+
+/**
+ * Broker 实时状态（通过控制通道读取）
+ */
+export interface BrokerLiveState {
+  onlineMqtt: string[];         // 在线 MQTT 设备 clientId
+  onlineHttp: string[];         // 在线 HTTP 设备 clientId
+  cache: CacheStats;
+  scheduler: {
+    totalTasks: number;
+    enabledTasks: number;
+    recurringTasks: number;
+    cronTasks: number;
+    solarTasks: number;
+  };
+  bridgeConnected: string[];    // 已连接的远程 Broker ID
 }
 
 /**
@@ -426,9 +1030,6 @@ export interface IDeviceCache {
   setDeviceByAuthKey(authKey: string, deviceInfo: Device): void;
   getDeviceByAuthKey(authKey: string): Device | undefined;
   removeDevice(clientId: string, authKey: string): void;
-  setLastPublishTime(clientId: string, timestamp: number): void;
-  getLastPublishTime(clientId: string): number;
-  checkPublishRate(clientId: string): boolean;
   setClientOnline(clientId: string, client: AedesClient): void;
   setClientOffline(clientId: string): void;
   getOnlineClient(clientId: string): AedesClient | undefined;
@@ -436,8 +1037,11 @@ export interface IDeviceCache {
   setDeviceMode(clientId: string, mode: DeviceMode): void;
   getDeviceMode(clientId: string): DeviceMode;
   isHttpMode(clientId: string): boolean;
-  addPendingMessage(clientId: string, message: ForwardMessage): void;
-  getPendingMessages(clientId: string): ForwardMessage[];
+  addPendingMessage(clientId: string, message: InboxMessage): void;
+  getPendingMessages(clientId: string): InboxMessage[];
+  peekPendingMessages(clientId: string, afterSeq: number): SequencedInboxMessage[];
+  ackPendingMessages(clientId: string, seq: number): InboxMessage[];
+  onPendingMessage(clientId: string, listener: () => void): () => void;
   cleanExpiredMessages(): void;
   setDeviceGroups(clientId: string, groups: string[]): void;
   getDeviceGroups(clientId: string): string[];
@@ -447,6 +1051,7 @@ export interface IDeviceCache {
   setHttpDeviceLastActive(clientId: string): void;
   getHttpDeviceLastActive(clientId: string): number;
   getOnlineMqttClientIds(): string[];
+  getOnlineHttpClientIds(): string[];
 }
 
 // 重新导出第三方类型
@@ -1,24 +1,20 @@
 import Fastify, { FastifyInstance } from 'fastify';
 import { initDatabase } from '../src/database';
+import config from '../src/config';
+import { getHttpsOptions } from '../src/tls';
 import { setupWebRoutes } from './routes';
 
-// Web用户接口配置
-const config = {
-  http: {
-    port: parseInt(process.env['WEB_PORT'] || '3001', 10),
-    host: '0.0.0.0'
-  }
-};
-
 async function main(): Promise<void> {
   // 初始化数据库（共享同一个数据库）
   console.log('正在初始化数据库连接...');
   initDatabase();
   console.log('数据库连接完成');
 
-  // 创建Fastify HTTP服务器
+  // 创建Fastify HTTP服务器（HTTPS_ENABLED=true 时使用 HTTPS）
+  const httpsOptions = getHttpsOptions();
   const fastify: FastifyInstance = Fastify({
-    logger: true
+    logger: true,
+    https: httpsOptions
   });
 
   // 设置Web管理路由
@@ -27,10 +23,10 @@ async function main(): Promise<void> {
   // 启动HTTP服务器
   try {
     await fastify.listen({
-      port: config.http.port,
-      host: config.http.host
+      port: config.web.port,
+      host: config.web.host
     });
-    console.log(`Web 用户接口服务已启动: http://localhost:${config.http.port}`);
+    console.log(`Web 用户接口服务已启动: ${httpsOptions ? 'https' : 'http'}://localhost:${config.web.port}`);
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
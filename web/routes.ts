@@ -2,12 +2,24 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import {
   getAllDevices,
   getDeviceByUuid,
+  getDeviceById,
   getDeviceGroups,
   updateDeviceConnection,
   createDevice,
   createGroup,
   getGroupByName,
   addDeviceToGroup,
+  getAllGroups,
+  getGroupDevices,
+  removeDeviceFromGroup,
+  deleteGroup,
+  updateGroup,
+  getGroupJoinRequests,
+  approveGroupJoinRequest,
+  rejectGroupJoinRequest,
+  getGroupInvites,
+  createGroupInvite,
+  deleteGroupInvite,
   getDeviceStatus,
   getAllBridgeRemotes,
   getBridgeRemoteByBrokerId,
@@ -20,11 +32,22 @@ import {
   deleteAllBridgeSharedDevices,
   queryTimeseriesData,
   getDeviceConfig,
-  upsertDeviceConfig,
-  deleteDeviceConfig
+  getOfflineMessages,
+  clearOfflineMessages,
+  getAllLimitProfiles,
+  getLimitProfileByName,
+  addLimitProfile,
+  updateLimitProfile,
+  deleteLimitProfile,
+  getLimitProfileAssignments,
+  setDeviceLimitProfile,
+  setGroupLimitProfile,
+  getAllScheduledTasksWithDevices,
+  getRecentScheduleRuns
 } from '../src/database';
 import {
   Device,
+  DeviceMode,
   Group,
   ApiResponse,
   UserCreateDeviceBody,
@@ -36,11 +59,34 @@ import {
   SharedDeviceParams,
   TimeseriesQueryParams,
   TimeseriesQuerystring,
-  DeviceConfigBody
+  TimeseriesAggregateQuerystring,
+  DeviceConfigBody,
+  ShadowState,
+  LimitProfile,
+  LimitProfileBody,
+  LimitProfileParams,
+  LimitDeviceParams,
+  LimitGroupParams,
+  GroupParams,
+  CreateGroupBody,
+  GroupMemberBody,
+  GroupMemberParams,
+  UpdateGroupBody,
+  CreateGroupInviteBody,
+  GroupInviteParams,
+  ScheduledTaskRecord,
+  ScheduleParams,
+  UserScheduleRunsQuery
 } from '../src/types';
 import { USER_TOKEN } from '../src/config';
 import config from '../src/config';
-import { bridge } from '../src/bridge';
+import { shadow, ShadowUpdateError } from '../src/shadow';
+import { limiter, validateLimitProfileBody } from '../src/limits';
+import { brokerControl, ControlError } from '../src/control';
+import { isValidGroupName, isValidJoinPolicy, generateInviteCode } from '../src/groups';
+import { validateBridgeRemote } from '../src/bridge';
+import { formatRetryWindow, resolveRunLimit, formatScheduleRun } from '../src/scheduler';
+import { aggregateTimeseries, parseAggregateOptions, TimeseriesQueryError } from '../src/timeseries';
 import { generateRandomString, generateAuthKey, generateClientId, generatePassword } from '../src/utils';
 
 /**
@@ -79,6 +125,136 @@ function verifyUserToken(request: FastifyRequest, reply: FastifyReply): boolean
   return true;
 }
 
+/**
+ * 设备连接状态：能读取 Broker 实时状态时以实时在线连接为准，否则使用数据库记录
+ */
+function getDeviceConnectionStatus(device: Device, liveModes: Map<string, DeviceMode> | null): Record<string, unknown> {
+  const status = getDeviceStatus(device.id);
+  const liveMode = device.client_id ? liveModes?.get(device.client_id) : undefined;
+  const online = liveModes ? liveMode !== undefined : status?.status === 1;
+  return {
+    status: online ? 1 : 0,
+    mode: liveMode || status?.mode || null,
+    last_active_at: status?.last_active_at || null
+  };
+}
+
+/**
+ * 读取 Broker 实时在线设备（clientId → 连接方式），无法读取（包括 Broker 超时或返回错误）时返回 null
+ */
+async function getLiveDeviceModes(): Promise<Map<string, DeviceMode> | null> {
+  let liveState;
+  try {
+    liveState = await brokerControl.call('getLiveState');
+  } catch (error) {
+    if (error instanceof ControlError) return null;
+    throw error;
+  }
+  if (!liveState) return null;
+
+  const modes = new Map<string, DeviceMode>();
+  for (const clientId of liveState.onlineMqtt) modes.set(clientId, 'mqtt');
+  for (const clientId of liveState.onlineHttp) modes.set(clientId, 'http');
+  return modes;
+}
+
+/**
+ * 修改写入数据库后通知 Broker 刷新实时状态
+ * Broker 超时或返回错误时修改已经生效，不返回 500（避免客户端重试已成功的修改），改为在成功响应中附带 warning
+ * @returns 需合并到响应 detail 的字段
+ */
+async function refreshBroker(refresh: () => Promise<unknown>): Promise<{ warning?: string }> {
+  try {
+    await refresh();
+    return {};
+  } catch (error) {
+    if (error instanceof ControlError) {
+      return { warning: `修改已保存，但通知 Broker 刷新实时状态失败: ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 由 Broker 执行的设备操作（删除、停用、更换 authKey）超时或返回错误时，按数据库判断操作是否已经生效
+ * 已生效时不返回 500，在成功响应中附带 warning；未生效时抛出原错误
+ * @returns 需合并到响应 detail 的字段
+ */
+function confirmApplied(error: unknown, applied: boolean): { warning: string } {
+  if (error instanceof ControlError && applied) {
+    return { warning: `修改已生效，但未收到 Broker 的确认: ${error.message}` };
+  }
+  throw error;
+}
+
+/**
+ * Broker 未完成设备操作时的响应，说明修改未生效
+ */
+function controlFailed(reply: FastifyReply, error: ControlError): FastifyReply {
+  return reply.status(500).send({
+    message: 1002,
+    detail: `Broker 未完成操作，设备未修改: ${error.message}`
+  });
+}
+
+/**
+ * 组所有者的对外格式（设备 uuid）
+ */
+function formatGroupOwner(group: Group): string | null {
+  if (group.owner_device_id === null) return null;
+  return getDeviceById(group.owner_device_id)?.uuid ?? null;
+}
+
+/**
+ * 发布限制配置的对外格式
+ */
+function formatLimitProfile(profile: LimitProfile): Record<string, unknown> {
+  return {
+    name: profile.name,
+    rate: profile.rate,
+    interval: profile.interval,
+    burst: profile.burst,
+    maxLength: profile.max_length,
+    action: profile.action,
+    created_at: profile.created_at,
+    updated_at: profile.updated_at
+  };
+}
+
+/**
+ * 定时任务的对外格式
+ */
+function formatScheduledTask(record: ScheduledTaskRecord & { owner_uuid: string | null; target_uuid: string | null }): Record<string, unknown> {
+  let command: unknown = null;
+  let solar: unknown = null;
+  try {
+    command = JSON.parse(record.command);
+    solar = record.solar ? JSON.parse(record.solar) : null;
+  } catch {
+    // 保持 null
+  }
+
+  return {
+    taskId: record.id,
+    owner: record.owner_uuid,
+    targetType: record.target_type,
+    deviceId: record.target_type === 'device' ? record.device_id : null,
+    toGroup: record.target_type === 'group' ? record.device_id : null,
+    targetUuid: record.target_uuid,
+    command,
+    mode: record.mode,
+    executeAt: record.execute_at,
+    interval: record.interval,
+    cron: record.cron,
+    timezone: record.timezone,
+    solar,
+    createdAt: record.created_at,
+    lastExecutedAt: record.last_executed_at,
+    enabled: record.enabled === 1,
+    retryWindow: formatRetryWindow(record.retry_window)
+  };
+}
+
 /**
  * 设置Web管理路由
  */
@@ -105,6 +281,48 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
     };
   });
 
+  /**
+   * 获取 Broker 实时状态（在线设备、缓存、定时任务、Bridge 连接）
+   * GET /user/status
+   */
+  fastify.get('/user/status', async (request: FastifyRequest, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const liveState = await brokerControl.call('getLiveState');
+
+      if (!liveState) {
+        return reply.status(503).send({
+          message: 1002,
+          detail: '无法连接 Broker 控制通道'
+        });
+      }
+
+      return {
+        message: 1000,
+        detail: {
+          online: {
+            mqtt: liveState.onlineMqtt.length,
+            http: liveState.onlineHttp.length,
+            total: liveState.onlineMqtt.length + liveState.onlineHttp.length
+          },
+          cache: liveState.cache,
+          scheduler: liveState.scheduler,
+          bridge: {
+            enabled: config.bridge.enabled,
+            connected: liveState.bridgeConnected
+          }
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
   /**
    * 获取所有设备列表
    * GET /user/devices
@@ -114,23 +332,20 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
     
     try {
       const devices = getAllDevices();
+      const liveModes = await getLiveDeviceModes();
       
       // 为每个设备添加连接状态信息
-      const devicesWithStatus = devices.map(device => {
-        const status = getDeviceStatus(device.id);
-        return {
-          ...device,
-          status: status?.status === 1 ? 1 : 0,
-          mode: status?.mode || null,
-          last_active_at: status?.last_active_at || null
-        };
-      });
+      const devicesWithStatus = devices.map(device => ({
+        ...device,
+        ...getDeviceConnectionStatus(device, liveModes)
+      }));
       
       return {
         message: 1000,
         detail: {
           devices: devicesWithStatus,
-          total: devicesWithStatus.length
+          total: devicesWithStatus.length,
+          live: liveModes !== null
         }
       };
     } catch (error) {
@@ -161,16 +376,15 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
       }
 
       const groups = getDeviceGroups(device.id);
-      const deviceStatus = getDeviceStatus(device.id);
+      const liveModes = await getLiveDeviceModes();
 
       return {
         message: 1000,
         detail: {
           ...device,
           groups: groups.map(g => g.name),
-          status: deviceStatus?.status === 1 ? 1 : 0,
-          mode: deviceStatus?.mode || null,
-          last_active_at: deviceStatus?.last_active_at || null
+          ...getDeviceConnectionStatus(device, liveModes),
+          live: liveModes !== null
         }
       };
     } catch (error) {
@@ -209,12 +423,14 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
       // 创建设备记录
       createDevice(deviceUuid, authKey);
 
-      // 创建默认用户组（以uuid为组名）
-      createGroup(deviceUuid);
-      const group = getGroupByName(deviceUuid);
+      // 创建默认用户组（以uuid为组名，归该设备所有，其他设备加入需要审批）
       const device = getDeviceByUuid(deviceUuid);
-      if (group && device) {
-        addDeviceToGroup(device.id, group.id);
+      if (device) {
+        createGroup(deviceUuid, device.id, 'approval');
+        const group = getGroupByName(deviceUuid);
+        if (group) {
+          addDeviceToGroup(device.id, group.id);
+        }
       }
 
       return {
@@ -277,40 +493,44 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
     }
   });
 
-  // ========== Bridge Remote Broker 管理接口 ==========
-
   /**
-   * 获取本机 Bridge 信息及所有远程 Broker
-   * GET /user/broker
+   * 删除设备（同时删除组成员关系、状态、配置、Bridge 共享和时序数据）
+   * DELETE /user/device/:uuid
    */
-  fastify.get('/user/broker', async (request: FastifyRequest, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.delete('/user/device/:uuid', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const remotes = getAllBridgeRemotes();
-      const connectedIds = bridge.getConnectedRemotes();
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
+
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      let disconnected: boolean | null = null;
+      let confirmed: { warning?: string } = {};
+      try {
+        ({ disconnected } = await brokerControl.call('deleteDevice', { deviceId: device.id }));
+      } catch (error) {
+        confirmed = confirmApplied(error, !getDeviceById(device.id));
+      }
 
       return {
         message: 1000,
         detail: {
-          brokerId: config.bridge.brokerId,
-          bridgeToken: config.bridge.token,
-          enabled: config.bridge.enabled,
-          remotes: remotes.map(r => ({
-            id: r.id,
-            brokerId: r.broker_id,
-            url: r.url,
-            token: r.token,
-            enabled: r.enabled === 1,
-            connected: connectedIds.includes(r.broker_id),
-            created_at: r.created_at,
-            updated_at: r.updated_at
-          })),
-          total: remotes.length
+          uuid,
+          disconnected,
+          status: 'deleted',
+          ...confirmed
         }
       };
     } catch (error) {
       fastify.log.error(error);
+      if (error instanceof ControlError) return controlFailed(reply, error);
       return reply.status(500).send({
         message: 1002,
         detail: '服务器内部错误'
@@ -319,68 +539,43 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 添加远程 Broker
-   * POST /user/broker
+   * 停用设备
+   * POST /user/device/:uuid/disable
    */
-  fastify.post('/user/broker', async (request: FastifyRequest<{ Body: AddBridgeRemoteBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.post('/user/device/:uuid/disable', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { brokerId, url, token } = request.body || {};
-
-      if (!brokerId || !url || !token) {
-        return reply.status(400).send({
-          message: 1001,
-          detail: 'brokerId、url、token 为必填参数'
-        });
-      }
-
-      // 不能添加自己
-      if (brokerId === config.bridge.brokerId) {
-        return reply.status(400).send({
-          message: 1001,
-          detail: '不能添加本机 Broker 作为远程 Broker'
-        });
-      }
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
 
-      // 检查是否已存在
-      const existing = getBridgeRemoteByBrokerId(brokerId);
-      if (existing) {
-        return reply.status(400).send({
-          message: 1001,
-          detail: `远程 Broker ${brokerId} 已存在`
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
         });
       }
 
-      addBridgeRemote(brokerId, url, token);
-
-      // 处理可选的共享设备列表
-      const { sharedDevices } = request.body || {} as any;
-      if (sharedDevices && Array.isArray(sharedDevices)) {
-        for (const sd of sharedDevices) {
-          if (!sd.deviceUuid) continue;
-          const device = getDeviceByUuid(sd.deviceUuid);
-          if (device) {
-            addBridgeSharedDevice(brokerId, device.id, sd.permissions || 'readwrite');
-          }
-        }
-      }
-
-      // 如果 Bridge 已运行，立即连接新添加的远程 Broker
-      if (config.bridge.enabled) {
-        bridge.addRemote({ id: brokerId, url, token });
+      let disconnected: boolean | null = null;
+      let confirmed: { warning?: string } = {};
+      try {
+        ({ disconnected } = await brokerControl.call('setDeviceDisabled', { deviceId: device.id, disabled: true }));
+      } catch (error) {
+        confirmed = confirmApplied(error, getDeviceById(device.id)?.disabled === 1);
       }
 
       return {
         message: 1000,
         detail: {
-          brokerId,
-          url,
-          status: 'added'
+          uuid,
+          disconnected,
+          status: 'disabled',
+          ...confirmed
         }
       };
     } catch (error) {
       fastify.log.error(error);
+      if (error instanceof ControlError) return controlFailed(reply, error);
       return reply.status(500).send({
         message: 1002,
         detail: '服务器内部错误'
@@ -389,58 +584,41 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 修改远程 Broker
-   * PUT /user/broker/:brokerId
+   * 启用已停用的设备
+   * POST /user/device/:uuid/enable
    */
-  fastify.put('/user/broker/:brokerId', async (request: FastifyRequest<{ Params: BrokerParams; Body: UpdateBridgeRemoteBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.post('/user/device/:uuid/enable', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { brokerId } = request.params;
-      const { url, token, enabled } = request.body || {};
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
 
-      const existing = getBridgeRemoteByBrokerId(brokerId);
-      if (!existing) {
+      if (!device) {
         return reply.status(404).send({
           message: 1003,
-          detail: `远程 Broker ${brokerId} 不存在`
+          detail: '设备不存在'
         });
       }
 
-      const updates: { url?: string; token?: string; enabled?: number } = {};
-      if (url !== undefined) updates.url = url;
-      if (token !== undefined) updates.token = token;
-      if (enabled !== undefined) updates.enabled = enabled ? 1 : 0;
-
-      updateBridgeRemote(brokerId, updates);
-
-      // 如果 Bridge 已运行，动态更新连接
-      if (config.bridge.enabled) {
-        if (enabled === false) {
-          // 禁用 → 断开连接
-          bridge.removeRemote(brokerId);
-        } else {
-          // 修改了 url/token 或启用 → 重连
-          const updatedRemote = getBridgeRemoteByBrokerId(brokerId);
-          if (updatedRemote && updatedRemote.enabled === 1) {
-            bridge.updateRemote({
-              id: updatedRemote.broker_id,
-              url: updatedRemote.url,
-              token: updatedRemote.token
-            });
-          }
-        }
+      let confirmed: { warning?: string } = {};
+      try {
+        await brokerControl.call('setDeviceDisabled', { deviceId: device.id, disabled: false });
+      } catch (error) {
+        confirmed = confirmApplied(error, getDeviceById(device.id)?.disabled === 0);
       }
 
       return {
         message: 1000,
         detail: {
-          brokerId,
-          status: 'updated'
+          uuid,
+          status: 'enabled',
+          ...confirmed
         }
       };
     } catch (error) {
       fastify.log.error(error);
+      if (error instanceof ControlError) return controlFailed(reply, error);
       return reply.status(500).send({
         message: 1002,
         detail: '服务器内部错误'
@@ -449,42 +627,52 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 删除远程 Broker
-   * DELETE /user/broker/:brokerId
+   * 更换设备 authKey（旧 authKey 和已下发的连接凭证立即失效）
+   * POST /user/device/:uuid/rotate-key
    */
-  fastify.delete('/user/broker/:brokerId', async (request: FastifyRequest<{ Params: BrokerParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.post('/user/device/:uuid/rotate-key', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { brokerId } = request.params;
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
 
-      const existing = getBridgeRemoteByBrokerId(brokerId);
-      if (!existing) {
+      if (!device) {
         return reply.status(404).send({
           message: 1003,
-          detail: `远程 Broker ${brokerId} 不存在`
+          detail: '设备不存在'
         });
       }
 
-      // 清理关联的共享设备记录
-      deleteAllBridgeSharedDevices(brokerId);
-
-      deleteBridgeRemote(brokerId);
-
-      // 如果 Bridge 已运行，断开连接
-      if (config.bridge.enabled) {
-        bridge.removeRemote(brokerId);
+      let rotated: { authKey: string; disconnected: boolean | null; warning?: string } | null;
+      try {
+        rotated = await brokerControl.call('rotateDeviceKey', { deviceId: device.id });
+      } catch (error) {
+        // 新 authKey 已写入数据库时从数据库读取
+        const current = getDeviceById(device.id);
+        const confirmed = confirmApplied(error, current !== undefined && current.auth_key !== device.auth_key);
+        rotated = { authKey: current!.auth_key, disconnected: null, ...confirmed };
       }
+      if (!rotated) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+      const { authKey, disconnected, warning } = rotated;
 
       return {
         message: 1000,
         detail: {
-          brokerId,
-          status: 'deleted'
+          uuid,
+          authKey,
+          disconnected,
+          ...(warning ? { warning } : {})
         }
       };
     } catch (error) {
       fastify.log.error(error);
+      if (error instanceof ControlError) return controlFailed(reply, error);
       return reply.status(500).send({
         message: 1002,
         detail: '服务器内部错误'
@@ -492,40 +680,30 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
     }
   });
 
-  // ========== Bridge 共享设备管理接口 ==========
+  // ========== 组管理接口 ==========
 
   /**
-   * 获取与指定远程 Broker 共享的本地设备列表
-   * GET /user/broker/:brokerId/devices
+   * 获取所有组
+   * GET /user/groups
    */
-  fastify.get('/user/broker/:brokerId/devices', async (request: FastifyRequest<{ Params: BrokerParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.get('/user/groups', async (request: FastifyRequest, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { brokerId } = request.params;
-
-      const existing = getBridgeRemoteByBrokerId(brokerId);
-      if (!existing) {
-        return reply.status(404).send({
-          message: 1003,
-          detail: `远程 Broker ${brokerId} 不存在`
-        });
-      }
-
-      const sharedDevices = getSharedDevicesForBroker(brokerId);
+      const groups = getAllGroups();
 
       return {
         message: 1000,
         detail: {
-          brokerId,
-          devices: sharedDevices.map(sd => ({
-            id: sd.id,
-            deviceUuid: sd.uuid,
-            clientId: sd.client_id,
-            permissions: sd.permissions,
-            created_at: sd.created_at
+          groups: groups.map(g => ({
+            name: g.name,
+            joinPolicy: g.join_policy,
+            owner: g.owner_uuid,
+            memberCount: g.member_count,
+            pendingCount: g.pending_count,
+            created_at: g.created_at
           })),
-          total: sharedDevices.length
+          total: groups.length
         }
       };
     } catch (error) {
@@ -538,60 +716,70 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 添加共享设备
-   * POST /user/broker/:brokerId/devices
+   * 创建组
+   * POST /user/groups
    */
-  fastify.post('/user/broker/:brokerId/devices', async (request: FastifyRequest<{ Params: BrokerParams; Body: AddSharedDeviceBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.post('/user/groups', async (request: FastifyRequest<{ Body: CreateGroupBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { brokerId } = request.params;
-      const { deviceUuid, permissions = 'readwrite' } = request.body || {};
+      const { name, joinPolicy, owner } = request.body || {};
 
-      if (!deviceUuid) {
+      if (!name || typeof name !== 'string') {
         return reply.status(400).send({
           message: 1001,
-          detail: 'deviceUuid 为必填参数'
+          detail: 'name 为必填参数'
         });
       }
 
-      if (permissions !== 'read' && permissions !== 'readwrite') {
+      if (joinPolicy !== undefined && !isValidJoinPolicy(joinPolicy)) {
         return reply.status(400).send({
           message: 1001,
-          detail: 'permissions 必须为 read 或 readwrite'
+          detail: 'joinPolicy 只能为 open、invite 或 approval'
         });
       }
 
-      const remoteBroker = getBridgeRemoteByBrokerId(brokerId);
-      if (!remoteBroker) {
-        return reply.status(404).send({
-          message: 1003,
-          detail: `远程 Broker ${brokerId} 不存在`
+      if (!isValidGroupName(name)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: '组名不能包含 / + # : 字符'
         });
       }
 
-      const device = getDeviceByUuid(deviceUuid);
-      if (!device) {
-        return reply.status(404).send({
-          message: 1003,
-          detail: `设备 ${deviceUuid} 不存在`
+      if (getGroupByName(name)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: `组 ${name} 已存在`
         });
       }
 
-      addBridgeSharedDevice(brokerId, device.id, permissions);
+      let ownerDevice: Device | undefined;
+      if (owner) {
+        ownerDevice = getDeviceByUuid(owner);
+        if (!ownerDevice) {
+          return reply.status(404).send({
+            message: 1003,
+            detail: '所有者设备不存在'
+          });
+        }
+      }
 
-      // 如果 Bridge 已运行，重新同步共享设备列表
-      if (config.bridge.enabled) {
-        bridge.syncSharedDevicesToBroker(brokerId);
+      createGroup(name, ownerDevice?.id ?? null, joinPolicy ?? 'open');
+
+      // 所有者自动成为组成员
+      const group = getGroupByName(name);
+      let refreshed = {};
+      if (ownerDevice && group) {
+        addDeviceToGroup(ownerDevice.id, group.id);
+        refreshed = await refreshBroker(() => brokerControl.call('refreshDeviceGroups', { deviceIds: [ownerDevice!.id] }));
       }
 
       return {
         message: 1000,
         detail: {
-          brokerId,
-          deviceUuid,
-          permissions,
-          status: 'shared'
+          name,
+          status: 'added',
+          ...refreshed
         }
       };
     } catch (error) {
@@ -604,44 +792,108 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 移除共享设备
-   * DELETE /user/broker/:brokerId/devices/:uuid
+   * 获取组详情及成员
+   * GET /user/groups/:name
    */
-  fastify.delete('/user/broker/:brokerId/devices/:uuid', async (request: FastifyRequest<{ Params: SharedDeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.get('/user/groups/:name', async (request: FastifyRequest<{ Params: GroupParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { brokerId, uuid } = request.params;
+      const { name } = request.params;
+      const group = getGroupByName(name);
 
-      const remoteBroker = getBridgeRemoteByBrokerId(brokerId);
-      if (!remoteBroker) {
+      if (!group) {
         return reply.status(404).send({
           message: 1003,
-          detail: `远程 Broker ${brokerId} 不存在`
+          detail: `组 ${name} 不存在`
         });
       }
 
-      const device = getDeviceByUuid(uuid);
-      if (!device) {
-        return reply.status(404).send({
-          message: 1003,
-          detail: `设备 ${uuid} 不存在`
+      const liveModes = await getLiveDeviceModes();
+      const members = getGroupDevices(group.id).map(device => {
+        const { status, mode } = getDeviceConnectionStatus(device, liveModes);
+        return {
+          uuid: device.uuid,
+          clientId: device.client_id,
+          status,
+          mode
+        };
+      });
+
+      return {
+        message: 1000,
+        detail: {
+          name: group.name,
+          joinPolicy: group.join_policy,
+          owner: formatGroupOwner(group),
+          created_at: group.created_at,
+          members,
+          total: members.length
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 修改组的加入方式或所有者
+   * PUT /user/groups/:name
+   */
+  fastify.put('/user/groups/:name', async (request: FastifyRequest<{ Params: GroupParams; Body: UpdateGroupBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name } = request.params;
+      const { joinPolicy, owner } = request.body || {};
+      const group = getGroupByName(name);
+
+      if (!group) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `组 ${name} 不存在`
         });
       }
 
-      removeBridgeSharedDevice(brokerId, device.id);
+      if (joinPolicy !== undefined && !isValidJoinPolicy(joinPolicy)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'joinPolicy 只能为 open、invite 或 approval'
+        });
+      }
 
-      // 如果 Bridge 已运行，重新同步共享设备列表
-      if (config.bridge.enabled) {
-        bridge.syncSharedDevicesToBroker(brokerId);
+      let ownerDevice: Device | undefined;
+      if (owner) {
+        ownerDevice = getDeviceByUuid(owner);
+        if (!ownerDevice) {
+          return reply.status(404).send({
+            message: 1003,
+            detail: '所有者设备不存在'
+          });
+        }
+      }
+
+      updateGroup(group.id, {
+        join_policy: joinPolicy,
+        owner_device_id: owner === null ? null : ownerDevice?.id
+      });
+
+      // 新所有者自动成为组成员
+      let refreshed = {};
+      if (ownerDevice && addDeviceToGroup(ownerDevice.id, group.id).changes > 0) {
+        refreshed = await refreshBroker(() => brokerControl.call('refreshDeviceGroups', { deviceIds: [ownerDevice!.id] }));
       }
 
       return {
         message: 1000,
         detail: {
-          brokerId,
-          deviceUuid: uuid,
-          status: 'unshared'
+          name,
+          status: 'updated',
+          ...refreshed
         }
       };
     } catch (error) {
@@ -654,37 +906,42 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 获取远程 Broker 共享给我的设备列表（通过 Bridge 同步获取）
-   * GET /user/broker/:brokerId/remote-devices
+   * 删除组（成员设备同时移出该组）
+   * DELETE /user/groups/:name
    */
-  fastify.get('/user/broker/:brokerId/remote-devices', async (request: FastifyRequest<{ Params: BrokerParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.delete('/user/groups/:name', async (request: FastifyRequest<{ Params: GroupParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { brokerId } = request.params;
+      const { name } = request.params;
+      const group = getGroupByName(name);
 
-      const existing = getBridgeRemoteByBrokerId(brokerId);
-      if (!existing) {
+      if (!group) {
         return reply.status(404).send({
           message: 1003,
-          detail: `远程 Broker ${brokerId} 不存在`
+          detail: `组 ${name} 不存在`
         });
       }
 
-      const remoteDevices = bridge.getRemoteSharedDevices(brokerId);
+      const members = getGroupDevices(group.id);
+      deleteGroup(group.id);
+
+      // 更新成员设备的组缓存，取消以该组为目标的定时任务
+      const refreshed = await refreshBroker(async () => {
+        await brokerControl.call('refreshDeviceGroups', { deviceIds: members.map(d => d.id) });
+        await brokerControl.call('cancelGroupSchedules', { groupName: name });
+        if (group.limit_profile_id !== null) {
+          await brokerControl.call('invalidateLimits');
+        }
+      });
 
       return {
         message: 1000,
         detail: {
-          brokerId,
-          devices: remoteDevices.map(d => ({
-            uuid: d.uuid,
-            clientId: d.clientId,
-            permissions: d.permissions,
-            lastData: d.lastData || null,
-            lastDataAt: d.lastDataAt || null
-          })),
-          total: remoteDevices.length
+          name,
+          removedMembers: members.length,
+          status: 'deleted',
+          ...refreshed
         }
       };
     } catch (error) {
@@ -696,19 +953,33 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
     }
   });
 
-  // ========== 设备配置管理接口 ==========
-
   /**
-   * 获取设备配置
-   * GET /user/device/:uuid/config
+   * 将设备添加到组
+   * POST /user/groups/:name/members
    */
-  fastify.get('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.post('/user/groups/:name/members', async (request: FastifyRequest<{ Params: GroupParams; Body: GroupMemberBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { uuid } = request.params;
-      const device = getDeviceByUuid(uuid);
+      const { name } = request.params;
+      const { uuid } = request.body || {};
+
+      if (!uuid) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'uuid 为必填参数'
+        });
+      }
 
+      const group = getGroupByName(name);
+      if (!group) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `组 ${name} 不存在`
+        });
+      }
+
+      const device = getDeviceByUuid(uuid);
       if (!device) {
         return reply.status(404).send({
           message: 1003,
@@ -716,14 +987,24 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
         });
       }
 
-      const deviceConfig = getDeviceConfig(device.id);
+      const result = addDeviceToGroup(device.id, group.id);
+      let refreshed = {};
+      if (result.changes > 0) {
+        refreshed = await refreshBroker(async () => {
+          await brokerControl.call('refreshDeviceGroups', { deviceIds: [device.id] });
+          if (group.limit_profile_id !== null) {
+            await brokerControl.call('invalidateLimits');
+          }
+        });
+      }
 
       return {
         message: 1000,
         detail: {
-          uuid: device.uuid,
-          config: deviceConfig ? JSON.parse(deviceConfig.config) : {},
-          updated_at: deviceConfig?.updated_at || null
+          name,
+          uuid,
+          status: result.changes > 0 ? 'added' : 'exists',
+          ...refreshed
         }
       };
     } catch (error) {
@@ -736,49 +1017,87 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 添加/修改设备配置（整体覆盖）
-   * PUT /user/device/:uuid/config
-   * Body: { config: { ... } }
+   * 将设备移出组
+   * DELETE /user/groups/:name/members/:uuid
    */
-  fastify.put('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams; Body: DeviceConfigBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.delete('/user/groups/:name/members/:uuid', async (request: FastifyRequest<{ Params: GroupMemberParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { uuid } = request.params;
-      const { config: configData } = request.body || {};
+      const { name, uuid } = request.params;
+      const group = getGroupByName(name);
+      const device = getDeviceByUuid(uuid);
 
-      if (configData === undefined || configData === null) {
-        return reply.status(400).send({
-          message: 1001,
-          detail: 'config 为必填参数'
+      if (!group || !device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: !group ? `组 ${name} 不存在` : '设备不存在'
         });
       }
 
-      // 验证 config 是合法的 JSON 对象
-      if (typeof configData !== 'object' || Array.isArray(configData)) {
-        return reply.status(400).send({
-          message: 1001,
-          detail: 'config 必须为 JSON 对象'
+      const result = removeDeviceFromGroup(device.id, group.id);
+      if (result.changes === 0) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `设备不在组 ${name} 中`
         });
       }
 
-      const device = getDeviceByUuid(uuid);
-      if (!device) {
+      const refreshed = await refreshBroker(async () => {
+        await brokerControl.call('refreshDeviceGroups', { deviceIds: [device.id] });
+        if (group.limit_profile_id !== null) {
+          await brokerControl.call('invalidateLimits');
+        }
+      });
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          uuid,
+          status: 'removed',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 获取组未过期的邀请码
+   * GET /user/groups/:name/invites
+   */
+  fastify.get('/user/groups/:name/invites', async (request: FastifyRequest<{ Params: GroupParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name } = request.params;
+      const group = getGroupByName(name);
+
+      if (!group) {
         return reply.status(404).send({
           message: 1003,
-          detail: '设备不存在'
+          detail: `组 ${name} 不存在`
         });
       }
 
-      const configStr = JSON.stringify(configData);
-      upsertDeviceConfig(device.id, configStr);
+      const invites = getGroupInvites(group.id);
 
       return {
         message: 1000,
         detail: {
-          uuid: device.uuid,
-          config: configData,
-          status: 'updated'
+          name,
+          invites: invites.map(invite => ({
+            code: invite.code,
+            expiresAt: invite.expires_at,
+            created_at: invite.created_at
+          })),
+          total: invites.length
         }
       };
     } catch (error) {
@@ -791,53 +1110,117 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 局部更新设备配置（合并字段）
-   * PATCH /user/device/:uuid/config
-   * Body: { config: { key1: value1, ... } }
+   * 生成组邀请码
+   * POST /user/groups/:name/invites
    */
-  fastify.patch('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams; Body: DeviceConfigBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.post('/user/groups/:name/invites', async (request: FastifyRequest<{ Params: GroupParams; Body: CreateGroupInviteBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { uuid } = request.params;
-      const { config: configData } = request.body || {};
+      const { name } = request.params;
+      const { expiresIn } = request.body || {};
+      const group = getGroupByName(name);
 
-      if (configData === undefined || configData === null) {
-        return reply.status(400).send({
-          message: 1001,
-          detail: 'config 为必填参数'
+      if (!group) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `组 ${name} 不存在`
         });
       }
 
-      if (typeof configData !== 'object' || Array.isArray(configData)) {
+      if (expiresIn !== undefined && (!Number.isInteger(expiresIn) || expiresIn <= 0)) {
         return reply.status(400).send({
           message: 1001,
-          detail: 'config 必须为 JSON 对象'
+          detail: 'expiresIn 必须为正整数（毫秒）'
         });
       }
 
-      const device = getDeviceByUuid(uuid);
-      if (!device) {
+      const code = generateInviteCode();
+      const expiresAt = Date.now() + (expiresIn ?? config.groups.inviteTtl);
+      createGroupInvite(group.id, code, expiresAt);
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          code,
+          expiresAt
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 撤销组邀请码
+   * DELETE /user/groups/:name/invites/:code
+   */
+  fastify.delete('/user/groups/:name/invites/:code', async (request: FastifyRequest<{ Params: GroupInviteParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name, code } = request.params;
+      const group = getGroupByName(name);
+
+      if (!group || deleteGroupInvite(group.id, code).changes === 0) {
         return reply.status(404).send({
           message: 1003,
-          detail: '设备不存在'
+          detail: '邀请码不存在'
         });
       }
 
-      // 读取现有配置并合并
-      const existing = getDeviceConfig(device.id);
-      const existingConfig = existing ? JSON.parse(existing.config) : {};
-      const mergedConfig = { ...existingConfig, ...(configData as Record<string, unknown>) };
+      return {
+        message: 1000,
+        detail: {
+          name,
+          code,
+          status: 'deleted'
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 获取待审批的加入申请
+   * GET /user/groups/:name/requests
+   */
+  fastify.get('/user/groups/:name/requests', async (request: FastifyRequest<{ Params: GroupParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name } = request.params;
+      const group = getGroupByName(name);
+
+      if (!group) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `组 ${name} 不存在`
+        });
+      }
 
-      const configStr = JSON.stringify(mergedConfig);
-      upsertDeviceConfig(device.id, configStr);
+      const requests = getGroupJoinRequests(group.id);
 
       return {
         message: 1000,
         detail: {
-          uuid: device.uuid,
-          config: mergedConfig,
-          status: 'updated'
+          name,
+          requests: requests.map(device => ({
+            uuid: device.uuid,
+            clientId: device.client_id,
+            requested_at: device.requested_at
+          })),
+          total: requests.length
         }
       };
     } catch (error) {
@@ -850,30 +1233,38 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 删除设备配置
-   * DELETE /user/device/:uuid/config
+   * 批准加入申请
+   * POST /user/groups/:name/requests/:uuid/approve
    */
-  fastify.delete('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.post('/user/groups/:name/requests/:uuid/approve', async (request: FastifyRequest<{ Params: GroupMemberParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { uuid } = request.params;
+      const { name, uuid } = request.params;
+      const group = getGroupByName(name);
       const device = getDeviceByUuid(uuid);
 
-      if (!device) {
+      if (!group || !device || approveGroupJoinRequest(device.id, group.id).changes === 0) {
         return reply.status(404).send({
           message: 1003,
-          detail: '设备不存在'
+          detail: '加入申请不存在'
         });
       }
 
-      deleteDeviceConfig(device.id);
+      const refreshed = await refreshBroker(async () => {
+        await brokerControl.call('refreshDeviceGroups', { deviceIds: [device.id] });
+        if (group.limit_profile_id !== null) {
+          await brokerControl.call('invalidateLimits');
+        }
+      });
 
       return {
         message: 1000,
         detail: {
-          uuid: device.uuid,
-          status: 'deleted'
+          name,
+          uuid,
+          status: 'approved',
+          ...refreshed
         }
       };
     } catch (error) {
@@ -886,52 +1277,1338 @@ export function setupWebRoutes(fastify: FastifyInstance): void {
   });
 
   /**
-   * 查询设备时序数据
-   * GET /user/device/:uuid/timeseries?dataKey=xxx&startTime=xxx&endTime=xxx&page=1&pageSize=100
+   * 拒绝加入申请
+   * DELETE /user/groups/:name/requests/:uuid
    */
-  fastify.get('/user/device/:uuid/timeseries', async (request: FastifyRequest<{ Params: TimeseriesQueryParams; Querystring: TimeseriesQuerystring }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+  fastify.delete('/user/groups/:name/requests/:uuid', async (request: FastifyRequest<{ Params: GroupMemberParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
     if (!verifyUserToken(request, reply)) return;
 
     try {
-      const { uuid } = request.params;
-      const { dataKey, startTime, endTime, page, pageSize } = request.query;
-
-      // 验证设备存在
+      const { name, uuid } = request.params;
+      const group = getGroupByName(name);
       const device = getDeviceByUuid(uuid);
-      if (!device) {
+
+      if (!group || !device || rejectGroupJoinRequest(device.id, group.id).changes === 0) {
         return reply.status(404).send({
           message: 1003,
-          detail: '设备不存在'
+          detail: '加入申请不存在'
         });
       }
 
-      const parsedStartTime = startTime ? parseInt(startTime, 10) : undefined;
-      const parsedEndTime = endTime ? parseInt(endTime, 10) : undefined;
-      const parsedPage = page ? parseInt(page, 10) : 1;
-      const parsedPageSize = pageSize ? parseInt(pageSize, 10) : 1000;
+      return {
+        message: 1000,
+        detail: {
+          name,
+          uuid,
+          status: 'rejected'
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
 
-      if (parsedStartTime !== undefined && isNaN(parsedStartTime)) {
-        return reply.status(400).send({ message: 1001, detail: 'startTime 必须为有效时间戳' });
-      }
-      if (parsedEndTime !== undefined && isNaN(parsedEndTime)) {
-        return reply.status(400).send({ message: 1001, detail: 'endTime 必须为有效时间戳' });
-      }
-      if (isNaN(parsedPage) || parsedPage < 1) {
-        return reply.status(400).send({ message: 1001, detail: 'page 必须为正整数' });
-      }
-      if (isNaN(parsedPageSize) || parsedPageSize < 1) {
-        return reply.status(400).send({ message: 1001, detail: 'pageSize 必须为正整数' });
-      }
+  // ========== Bridge Remote Broker 管理接口 ==========
 
-      const safePageSize = Math.min(parsedPageSize, 1000);
-      const result = queryTimeseriesData(uuid, dataKey, parsedStartTime, parsedEndTime, parsedPage, safePageSize);
+  /**
+   * 获取本机 Bridge 信息及所有远程 Broker
+   * GET /user/broker
+   */
+  fastify.get('/user/broker', async (request: FastifyRequest, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const remotes = getAllBridgeRemotes();
+      const liveState = await brokerControl.call('getLiveState');
+      const connectedIds = liveState?.bridgeConnected ?? [];
 
       return {
         message: 1000,
         detail: {
-          deviceUuid: uuid,
-          dataKey: dataKey || null,
-          ...result
+          brokerId: config.bridge.brokerId,
+          bridgeToken: config.bridge.token,
+          enabled: config.bridge.enabled,
+          remotes: remotes.map(r => ({
+            id: r.id,
+            brokerId: r.broker_id,
+            url: r.url,
+            token: r.token,
+            caPinned: r.ca_cert !== null,
+            enabled: r.enabled === 1,
+            connected: connectedIds.includes(r.broker_id),
+            created_at: r.created_at,
+            updated_at: r.updated_at
+          })),
+          total: remotes.length
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 添加远程 Broker
+   * POST /user/broker
+   */
+  fastify.post('/user/broker', async (request: FastifyRequest<{ Body: AddBridgeRemoteBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { brokerId, url, token, ca } = request.body || {};
+
+      if (!brokerId || !url || !token) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'brokerId、url、token 为必填参数'
+        });
+      }
+
+      const remoteError = validateBridgeRemote(url, ca);
+      if (remoteError) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: remoteError
+        });
+      }
+
+      // 不能添加自己
+      if (brokerId === config.bridge.brokerId) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: '不能添加本机 Broker 作为远程 Broker'
+        });
+      }
+
+      // 检查是否已存在
+      const existing = getBridgeRemoteByBrokerId(brokerId);
+      if (existing) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: `远程 Broker ${brokerId} 已存在`
+        });
+      }
+
+      addBridgeRemote(brokerId, url, token, ca ?? null);
+
+      // 处理可选的共享设备列表
+      const { sharedDevices } = request.body || {} as any;
+      if (sharedDevices && Array.isArray(sharedDevices)) {
+        for (const sd of sharedDevices) {
+          if (!sd.deviceUuid) continue;
+          const device = getDeviceByUuid(sd.deviceUuid);
+          if (device) {
+            addBridgeSharedDevice(brokerId, device.id, sd.permissions || 'readwrite');
+          }
+        }
+      }
+
+      // 如果 Bridge 已运行，立即连接新添加的远程 Broker
+      const refreshed = await refreshBroker(() => brokerControl.call('reloadBridgeRemote', { brokerId }));
+
+      return {
+        message: 1000,
+        detail: {
+          brokerId,
+          url,
+          status: 'added',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 修改远程 Broker
+   * PUT /user/broker/:brokerId
+   */
+  fastify.put('/user/broker/:brokerId', async (request: FastifyRequest<{ Params: BrokerParams; Body: UpdateBridgeRemoteBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { brokerId } = request.params;
+      const { url, token, ca, enabled } = request.body || {};
+
+      const existing = getBridgeRemoteByBrokerId(brokerId);
+      if (!existing) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `远程 Broker ${brokerId} 不存在`
+        });
+      }
+
+      // 只修改 url 时，已固定的 CA 需与新 url 一起校验
+      const remoteError = validateBridgeRemote(url ?? existing.url, ca === undefined ? existing.ca_cert : ca);
+      if (remoteError) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: remoteError
+        });
+      }
+
+      const updates: { url?: string; token?: string; ca_cert?: string | null; enabled?: number } = {};
+      if (url !== undefined) updates.url = url;
+      if (token !== undefined) updates.token = token;
+      if (ca !== undefined) updates.ca_cert = ca;
+      if (enabled !== undefined) updates.enabled = enabled ? 1 : 0;
+
+      updateBridgeRemote(brokerId, updates);
+
+      // 如果 Bridge 已运行，动态更新连接（禁用则断开，修改了 url/token/ca 或启用则重连）
+      const refreshed = await refreshBroker(() => brokerControl.call('reloadBridgeRemote', { brokerId }));
+
+      return {
+        message: 1000,
+        detail: {
+          brokerId,
+          status: 'updated',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 删除远程 Broker
+   * DELETE /user/broker/:brokerId
+   */
+  fastify.delete('/user/broker/:brokerId', async (request: FastifyRequest<{ Params: BrokerParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { brokerId } = request.params;
+
+      const existing = getBridgeRemoteByBrokerId(brokerId);
+      if (!existing) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `远程 Broker ${brokerId} 不存在`
+        });
+      }
+
+      // 清理关联的共享设备记录
+      deleteAllBridgeSharedDevices(brokerId);
+
+      deleteBridgeRemote(brokerId);
+
+      // 如果 Bridge 已运行，断开连接
+      const refreshed = await refreshBroker(() => brokerControl.call('reloadBridgeRemote', { brokerId }));
+
+      return {
+        message: 1000,
+        detail: {
+          brokerId,
+          status: 'deleted',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  // ========== Bridge 共享设备管理接口 ==========
+
+  /**
+   * 获取与指定远程 Broker 共享的本地设备列表
+   * GET /user/broker/:brokerId/devices
+   */
+  fastify.get('/user/broker/:brokerId/devices', async (request: FastifyRequest<{ Params: BrokerParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { brokerId } = request.params;
+
+      const existing = getBridgeRemoteByBrokerId(brokerId);
+      if (!existing) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `远程 Broker ${brokerId} 不存在`
+        });
+      }
+
+      const sharedDevices = getSharedDevicesForBroker(brokerId);
+
+      return {
+        message: 1000,
+        detail: {
+          brokerId,
+          devices: sharedDevices.map(sd => ({
+            id: sd.id,
+            deviceUuid: sd.uuid,
+            clientId: sd.client_id,
+            permissions: sd.permissions,
+            created_at: sd.created_at
+          })),
+          total: sharedDevices.length
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 添加共享设备
+   * POST /user/broker/:brokerId/devices
+   */
+  fastify.post('/user/broker/:brokerId/devices', async (request: FastifyRequest<{ Params: BrokerParams; Body: AddSharedDeviceBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { brokerId } = request.params;
+      const { deviceUuid, permissions = 'readwrite' } = request.body || {};
+
+      if (!deviceUuid) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'deviceUuid 为必填参数'
+        });
+      }
+
+      if (permissions !== 'read' && permissions !== 'readwrite') {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'permissions 必须为 read 或 readwrite'
+        });
+      }
+
+      const remoteBroker = getBridgeRemoteByBrokerId(brokerId);
+      if (!remoteBroker) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `远程 Broker ${brokerId} 不存在`
+        });
+      }
+
+      const device = getDeviceByUuid(deviceUuid);
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `设备 ${deviceUuid} 不存在`
+        });
+      }
+
+      addBridgeSharedDevice(brokerId, device.id, permissions);
+
+      // 如果 Bridge 已运行，重新同步共享设备列表
+      const refreshed = await refreshBroker(() => brokerControl.call('syncSharedDevices', { brokerIds: [brokerId] }));
+
+      return {
+        message: 1000,
+        detail: {
+          brokerId,
+          deviceUuid,
+          permissions,
+          status: 'shared',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 移除共享设备
+   * DELETE /user/broker/:brokerId/devices/:uuid
+   */
+  fastify.delete('/user/broker/:brokerId/devices/:uuid', async (request: FastifyRequest<{ Params: SharedDeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { brokerId, uuid } = request.params;
+
+      const remoteBroker = getBridgeRemoteByBrokerId(brokerId);
+      if (!remoteBroker) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `远程 Broker ${brokerId} 不存在`
+        });
+      }
+
+      const device = getDeviceByUuid(uuid);
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `设备 ${uuid} 不存在`
+        });
+      }
+
+      removeBridgeSharedDevice(brokerId, device.id);
+
+      // 如果 Bridge 已运行，重新同步共享设备列表
+      const refreshed = await refreshBroker(() => brokerControl.call('syncSharedDevices', { brokerIds: [brokerId] }));
+
+      return {
+        message: 1000,
+        detail: {
+          brokerId,
+          deviceUuid: uuid,
+          status: 'unshared',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 获取远程 Broker 共享给我的设备列表（通过 Bridge 同步获取）
+   * GET /user/broker/:brokerId/remote-devices
+   */
+  fastify.get('/user/broker/:brokerId/remote-devices', async (request: FastifyRequest<{ Params: BrokerParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { brokerId } = request.params;
+
+      const existing = getBridgeRemoteByBrokerId(brokerId);
+      if (!existing) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `远程 Broker ${brokerId} 不存在`
+        });
+      }
+
+      const remoteDevices = await brokerControl.call('getRemoteSharedDevices', { brokerId });
+
+      return {
+        message: 1000,
+        detail: {
+          brokerId,
+          devices: remoteDevices.map(d => ({
+            uuid: d.uuid,
+            clientId: d.clientId,
+            permissions: d.permissions,
+            lastData: d.lastData || null,
+            lastDataAt: d.lastDataAt || null
+          })),
+          total: remoteDevices.length
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  // ========== 设备配置管理接口 ==========
+  // 设备配置即设备影子的 desired 状态
+
+  /**
+   * 获取设备配置（完整设备影子）
+   * GET /user/device/:uuid/config
+   */
+  fastify.get('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
+
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const deviceConfig = getDeviceConfig(device.id);
+      const document = shadow.getShadow(device);
+
+      return {
+        message: 1000,
+        detail: {
+          uuid: device.uuid,
+          config: document.state.desired,
+          reported: document.state.reported,
+          delta: document.state.delta,
+          metadata: document.metadata,
+          version: document.version,
+          updated_at: deviceConfig?.updated_at || null
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 添加/修改设备配置（整体覆盖 desired，差异推送给在线设备）
+   * PUT /user/device/:uuid/config
+   * Body: { config: { ... }, version? }
+   */
+  fastify.put('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams; Body: DeviceConfigBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+      const { config: configData, version } = request.body || {};
+
+      if (configData === undefined || configData === null) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'config 为必填参数'
+        });
+      }
+
+      // 验证 config 是合法的 JSON 对象
+      if (typeof configData !== 'object' || Array.isArray(configData)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'config 必须为 JSON 对象'
+        });
+      }
+
+      const device = getDeviceByUuid(uuid);
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const result = shadow.update(device, { state: { desired: configData as ShadowState }, version }, true);
+      const { document } = result;
+      // 设备连接在 Broker 进程中，由 Broker 推送差异
+      let pushed = result.pushed;
+      let refreshed = {};
+      if (!pushed && Object.keys(document.state.delta).length > 0) {
+        refreshed = await refreshBroker(async () => {
+          pushed = (await brokerControl.call('pushShadowDelta', { deviceId: device.id })).pushed;
+        });
+      }
+
+      return {
+        message: 1000,
+        detail: {
+          uuid: device.uuid,
+          config: document.state.desired,
+          delta: document.state.delta,
+          version: document.version,
+          pushed,
+          status: 'updated',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      if (error instanceof ShadowUpdateError) {
+        return reply.status(error.code === 1009 ? 409 : 400).send({
+          message: error.code,
+          detail: error.message
+        });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 局部更新设备配置（合并字段，值为 null 表示删除该字段，差异推送给在线设备）
+   * PATCH /user/device/:uuid/config
+   * Body: { config: { key1: value1, ... }, version? }
+   */
+  fastify.patch('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams; Body: DeviceConfigBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+      const { config: configData, version } = request.body || {};
+
+      if (configData === undefined || configData === null) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'config 为必填参数'
+        });
+      }
+
+      if (typeof configData !== 'object' || Array.isArray(configData)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'config 必须为 JSON 对象'
+        });
+      }
+
+      const device = getDeviceByUuid(uuid);
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const result = shadow.update(device, { state: { desired: configData as ShadowState }, version });
+      const { document } = result;
+      // 设备连接在 Broker 进程中，由 Broker 推送差异
+      let pushed = result.pushed;
+      let refreshed = {};
+      if (!pushed && Object.keys(document.state.delta).length > 0) {
+        refreshed = await refreshBroker(async () => {
+          pushed = (await brokerControl.call('pushShadowDelta', { deviceId: device.id })).pushed;
+        });
+      }
+
+      return {
+        message: 1000,
+        detail: {
+          uuid: device.uuid,
+          config: document.state.desired,
+          delta: document.state.delta,
+          version: document.version,
+          pushed,
+          status: 'updated',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      if (error instanceof ShadowUpdateError) {
+        return reply.status(error.code === 1009 ? 409 : 400).send({
+          message: error.code,
+          detail: error.message
+        });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 删除设备配置（清空整个设备影子）
+   * DELETE /user/device/:uuid/config
+   */
+  fastify.delete('/user/device/:uuid/config', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
+
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      shadow.deleteShadow(device);
+
+      return {
+        message: 1000,
+        detail: {
+          uuid: device.uuid,
+          status: 'deleted'
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 查看设备离线消息队列
+   * GET /user/device/:uuid/queue
+   */
+  fastify.get('/user/device/:uuid/queue', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
+
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const messages = getOfflineMessages(device.id).map(m => ({
+        id: m.id,
+        message: JSON.parse(m.payload),
+        created_at: m.created_at,
+        expires_at: m.expires_at
+      }));
+
+      return {
+        message: 1000,
+        detail: {
+          uuid: device.uuid,
+          messages,
+          count: messages.length,
+          maxDepth: config.offlineQueue.maxDepth
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 清空设备离线消息队列
+   * DELETE /user/device/:uuid/queue
+   */
+  fastify.delete('/user/device/:uuid/queue', async (request: FastifyRequest<{ Params: DeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+      const device = getDeviceByUuid(uuid);
+
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const result = clearOfflineMessages(device.id);
+
+      return {
+        message: 1000,
+        detail: {
+          uuid: device.uuid,
+          status: 'purged',
+          deleted: result.changes
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 查询设备时序数据
+   * GET /user/device/:uuid/timeseries?dataKey=xxx&startTime=xxx&endTime=xxx&page=1&pageSize=100
+   */
+  fastify.get('/user/device/:uuid/timeseries', async (request: FastifyRequest<{ Params: TimeseriesQueryParams; Querystring: TimeseriesQuerystring }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+      const { dataKey, startTime, endTime, page, pageSize } = request.query;
+
+      // 验证设备存在
+      const device = getDeviceByUuid(uuid);
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const parsedStartTime = startTime ? parseInt(startTime, 10) : undefined;
+      const parsedEndTime = endTime ? parseInt(endTime, 10) : undefined;
+      const parsedPage = page ? parseInt(page, 10) : 1;
+      const parsedPageSize = pageSize ? parseInt(pageSize, 10) : 1000;
+
+      if (parsedStartTime !== undefined && isNaN(parsedStartTime)) {
+        return reply.status(400).send({ message: 1001, detail: 'startTime 必须为有效时间戳' });
+      }
+      if (parsedEndTime !== undefined && isNaN(parsedEndTime)) {
+        return reply.status(400).send({ message: 1001, detail: 'endTime 必须为有效时间戳' });
+      }
+      if (isNaN(parsedPage) || parsedPage < 1) {
+        return reply.status(400).send({ message: 1001, detail: 'page 必须为正整数' });
+      }
+      if (isNaN(parsedPageSize) || parsedPageSize < 1) {
+        return reply.status(400).send({ message: 1001, detail: 'pageSize 必须为正整数' });
+      }
+
+      const safePageSize = Math.min(parsedPageSize, 1000);
+      const result = queryTimeseriesData(uuid, dataKey, parsedStartTime, parsedEndTime, parsedPage, safePageSize);
+
+      return {
+        message: 1000,
+        detail: {
+          deviceUuid: uuid,
+          dataKey: dataKey || null,
+          ...result
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 聚合查询时序数据（按时间桶降采样）
+   * GET /user/device/:uuid/timeseries/aggregate?dataKey=xxx&startTime=xxx&endTime=xxx&interval=1h&fn=avg,max&fill=none
+   */
+  fastify.get('/user/device/:uuid/timeseries/aggregate', async (request: FastifyRequest<{ Params: TimeseriesQueryParams; Querystring: TimeseriesAggregateQuerystring }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { uuid } = request.params;
+
+      // 验证设备存在
+      const device = getDeviceByUuid(uuid);
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      const options = parseAggregateOptions(request.query);
+      const series = aggregateTimeseries(uuid, options);
+
+      return {
+        message: 1000,
+        detail: {
+          deviceUuid: uuid,
+          dataKey: options.dataKey || null,
+          startTime: options.startTime,
+          endTime: options.endTime,
+          interval: options.interval,
+          functions: options.functions,
+          fill: options.fill,
+          series
+        }
+      };
+    } catch (error) {
+      if (error instanceof TimeseriesQueryError) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: error.message
+        });
+      }
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  // ========== 发布限制配置 ==========
+
+  /**
+   * 获取所有发布限制配置
+   * GET /user/limits
+   */
+  fastify.get('/user/limits', async (request: FastifyRequest, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const profiles = getAllLimitProfiles();
+
+      return {
+        message: 1000,
+        detail: {
+          default: limiter.getDefaultLimit(),
+          profiles: profiles.map(formatLimitProfile),
+          total: profiles.length
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 添加发布限制配置
+   * POST /user/limits
+   */
+  fastify.post('/user/limits', async (request: FastifyRequest<{ Body: LimitProfileBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const body = request.body || {};
+      const { name, rate, interval, burst, maxLength, action } = body;
+
+      if (!name || typeof name !== 'string') {
+        return reply.status(400).send({
+          message: 1001,
+          detail: 'name 为必填参数'
+        });
+      }
+
+      const invalid = validateLimitProfileBody(body, false);
+      if (invalid) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: invalid
+        });
+      }
+
+      if (getLimitProfileByName(name)) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: `发布限制配置 ${name} 已存在`
+        });
+      }
+
+      // burst 默认等于 rate，即一个周期内的消息可以一次发完
+      addLimitProfile(name, rate!, interval!, burst ?? rate!, maxLength!, action ?? 'disconnect');
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          status: 'added'
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 获取发布限制配置及其分配的设备和组
+   * GET /user/limits/:name
+   */
+  fastify.get('/user/limits/:name', async (request: FastifyRequest<{ Params: LimitProfileParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name } = request.params;
+      const profile = getLimitProfileByName(name);
+
+      if (!profile) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `发布限制配置 ${name} 不存在`
+        });
+      }
+
+      const { devices, groups } = getLimitProfileAssignments(profile.id);
+
+      return {
+        message: 1000,
+        detail: {
+          ...formatLimitProfile(profile),
+          devices: devices.map(d => d.uuid),
+          groups: groups.map(g => g.name)
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 修改发布限制配置
+   * PUT /user/limits/:name
+   */
+  fastify.put('/user/limits/:name', async (request: FastifyRequest<{ Params: LimitProfileParams; Body: LimitProfileBody }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name } = request.params;
+      const body = request.body || {};
+
+      if (!getLimitProfileByName(name)) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `发布限制配置 ${name} 不存在`
+        });
+      }
+
+      const invalid = validateLimitProfileBody(body, true);
+      if (invalid) {
+        return reply.status(400).send({
+          message: 1001,
+          detail: invalid
+        });
+      }
+
+      updateLimitProfile(name, {
+        rate: body.rate,
+        interval: body.interval,
+        burst: body.burst,
+        max_length: body.maxLength,
+        action: body.action
+      });
+      const refreshed = await refreshBroker(() => brokerControl.call('invalidateLimits'));
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          status: 'updated',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 删除发布限制配置（同时解除所有分配）
+   * DELETE /user/limits/:name
+   */
+  fastify.delete('/user/limits/:name', async (request: FastifyRequest<{ Params: LimitProfileParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name } = request.params;
+      const profile = getLimitProfileByName(name);
+
+      if (!profile) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `发布限制配置 ${name} 不存在`
+        });
+      }
+
+      deleteLimitProfile(profile.id);
+      const refreshed = await refreshBroker(() => brokerControl.call('invalidateLimits'));
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          status: 'deleted',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 将发布限制配置分配给设备（覆盖设备原有的配置）
+   * PUT /user/limits/:name/devices/:uuid
+   */
+  fastify.put('/user/limits/:name/devices/:uuid', async (request: FastifyRequest<{ Params: LimitDeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name, uuid } = request.params;
+      const profile = getLimitProfileByName(name);
+
+      if (!profile) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `发布限制配置 ${name} 不存在`
+        });
+      }
+
+      const device = getDeviceByUuid(uuid);
+      if (!device) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: '设备不存在'
+        });
+      }
+
+      setDeviceLimitProfile(device.id, profile.id);
+      const refreshed = await refreshBroker(() => brokerControl.call('invalidateLimits'));
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          uuid,
+          status: 'assigned',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 取消设备的发布限制配置
+   * DELETE /user/limits/:name/devices/:uuid
+   */
+  fastify.delete('/user/limits/:name/devices/:uuid', async (request: FastifyRequest<{ Params: LimitDeviceParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name, uuid } = request.params;
+      const profile = getLimitProfileByName(name);
+      const device = getDeviceByUuid(uuid);
+
+      if (!profile || !device || device.limit_profile_id !== profile.id) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `设备未分配发布限制配置 ${name}`
+        });
+      }
+
+      setDeviceLimitProfile(device.id, null);
+      const refreshed = await refreshBroker(() => brokerControl.call('invalidateLimits'));
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          uuid,
+          status: 'unassigned',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 将发布限制配置分配给组（覆盖组原有的配置）
+   * PUT /user/limits/:name/groups/:group
+   */
+  fastify.put('/user/limits/:name/groups/:group', async (request: FastifyRequest<{ Params: LimitGroupParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name, group: groupName } = request.params;
+      const profile = getLimitProfileByName(name);
+
+      if (!profile) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `发布限制配置 ${name} 不存在`
+        });
+      }
+
+      const group = getGroupByName(groupName);
+      if (!group) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `组 ${groupName} 不存在`
+        });
+      }
+
+      setGroupLimitProfile(group.id, profile.id);
+      const refreshed = await refreshBroker(() => brokerControl.call('invalidateLimits'));
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          group: groupName,
+          status: 'assigned',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 取消组的发布限制配置
+   * DELETE /user/limits/:name/groups/:group
+   */
+  fastify.delete('/user/limits/:name/groups/:group', async (request: FastifyRequest<{ Params: LimitGroupParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { name, group: groupName } = request.params;
+      const profile = getLimitProfileByName(name);
+      const group = getGroupByName(groupName);
+
+      if (!profile || !group || group.limit_profile_id !== profile.id) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `组未分配发布限制配置 ${name}`
+        });
+      }
+
+      setGroupLimitProfile(group.id, null);
+      const refreshed = await refreshBroker(() => brokerControl.call('invalidateLimits'));
+
+      return {
+        message: 1000,
+        detail: {
+          name,
+          group: groupName,
+          status: 'unassigned',
+          ...refreshed
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  // ========== 定时任务 ==========
+
+  /**
+   * 获取全部定时任务（所有设备创建的任务）
+   * GET /user/schedules
+   */
+  fastify.get('/user/schedules', async (request: FastifyRequest, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const tasks = getAllScheduledTasksWithDevices().map(formatScheduledTask);
+      return {
+        message: 1000,
+        detail: {
+          tasks,
+          total: tasks.length
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 获取最近的定时任务执行记录（包括已删除的任务）
+   * GET /user/schedules/runs?taskId=xxx&limit=50
+   */
+  fastify.get('/user/schedules/runs', async (request: FastifyRequest<{ Querystring: UserScheduleRunsQuery }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { taskId, limit } = request.query;
+      const runs = getRecentScheduleRuns(resolveRunLimit(limit), taskId || undefined).map(run => ({
+        ...formatScheduleRun(run),
+        owner: run.owner_uuid
+      }));
+
+      return {
+        message: 1000,
+        detail: {
+          runs,
+          count: runs.length
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        message: 1002,
+        detail: '服务器内部错误'
+      });
+    }
+  });
+
+  /**
+   * 取消任意定时任务
+   * DELETE /user/schedules/:taskId
+   */
+  fastify.delete('/user/schedules/:taskId', async (request: FastifyRequest<{ Params: ScheduleParams }>, reply: FastifyReply): Promise<ApiResponse | undefined> => {
+    if (!verifyUserToken(request, reply)) return;
+
+    try {
+      const { taskId } = request.params;
+      const { cancelled } = await brokerControl.call('cancelSchedule', { taskId });
+
+      if (!cancelled) {
+        return reply.status(404).send({
+          message: 1003,
+          detail: `定时任务 ${taskId} 不存在`
+        });
+      }
+
+      return {
+        message: 1000,
+        detail: {
+          taskId,
+          status: 'cancelled'
         }
       };
     } catch (error) {